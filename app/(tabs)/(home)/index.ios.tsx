@@ -1,14 +1,24 @@
 
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { StyleSheet, View, Text } from 'react-native';
 import { GameBoard } from '@/components/GameBoard';
+import { DailyCard } from '@/components/DailyCard';
+import { ResumePrompt } from '@/components/ResumePrompt';
+import { GameState } from '@/types/game';
+import { useProgress } from '@/contexts/ProgressContext';
 import { colors } from '@/styles/commonStyles';
 import { useFonts, Nunito_400Regular, Nunito_700Bold, Nunito_800ExtraBold } from '@expo-google-fonts/nunito';
 import * as SplashScreen from 'expo-splash-screen';
+import { useLocalSearchParams } from 'expo-router';
 
 SplashScreen.preventAutoHideAsync();
 
 export default function HomeScreen() {
+  const { progress, isLoaded: progressLoaded } = useProgress();
+  // Set when a level is picked on the level map
+  const { level: selectedLevel, launchedAt } = useLocalSearchParams<{ level?: string; launchedAt?: string }>();
+  const [resumeDecided, setResumeDecided] = useState(false);
+  const [resumeState, setResumeState] = useState<GameState | undefined>(undefined);
   const [fontsLoaded] = useFonts({
     Nunito_400Regular,
     Nunito_700Bold,
@@ -21,7 +31,17 @@ export default function HomeScreen() {
     }
   }, [fontsLoaded]);
 
-  if (!fontsLoaded) {
+  const handleResume = useCallback((state: GameState) => {
+    console.log(`Resuming level ${state.level}`);
+    setResumeState(state);
+    setResumeDecided(true);
+  }, []);
+
+  const handleStartFresh = useCallback(() => {
+    setResumeDecided(true);
+  }, []);
+
+  if (!fontsLoaded || !progressLoaded) {
     return null;
   }
 
@@ -29,7 +49,14 @@ export default function HomeScreen() {
     <View style={styles.container}>
       <Text style={styles.title}>Trinity Match</Text>
       <Text style={styles.subtitle}>Match 3 or More Colors</Text>
-      <GameBoard />
+      <DailyCard />
+      {selectedLevel ? (
+        <GameBoard key={launchedAt} initialLevel={Number(selectedLevel)} />
+      ) : resumeDecided ? (
+        <GameBoard initialLevel={progress.currentLevel} initialState={resumeState} />
+      ) : (
+        <ResumePrompt onResume={handleResume} onStartFresh={handleStartFresh} />
+      )}
     </View>
   );
 }
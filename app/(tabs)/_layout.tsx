@@ -1,4 +1,5 @@
 import React from 'react';
+import { Dimensions } from 'react-native';
 import { Stack } from 'expo-router';
 import FloatingTabBar, { TabBarItem } from '@/components/FloatingTabBar';
 
@@ -11,6 +12,12 @@ export default function TabLayout() {
       icon: 'home',
       label: 'Home',
     },
+    {
+      name: 'levels',
+      route: '/(tabs)/levels',
+      icon: 'map',
+      label: 'Levels',
+    },
     {
       name: 'profile',
       route: '/(tabs)/profile',
@@ -29,9 +36,10 @@ export default function TabLayout() {
         }}
       >
         <Stack.Screen key="home" name="(home)" />
+        <Stack.Screen key="levels" name="levels" />
         <Stack.Screen key="profile" name="profile" />
       </Stack>
-      <FloatingTabBar tabs={tabs} />
+      <FloatingTabBar tabs={tabs} containerWidth={Dimensions.get('window').width / 1.7} />
     </>
   );
 }
@@ -0,0 +1,275 @@
+import React, { useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, SectionList, TouchableOpacity, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useProgress } from '@/contexts/ProgressContext';
+import { BLITZ_SECONDS, MAX_LEVEL, getBoardSize } from '@/utils/gameLogic';
+import { clearGameSnapshot } from '@/utils/savedGame';
+
+const LEVELS_PER_ROW = 5;
+const MAX_STARS = 3;
+
+interface LevelTier {
+  title: string;
+  firstLevel: number;
+  lastLevel: number;
+  // Levels chunked into rows for the grid
+  data: number[][];
+}
+
+// Group consecutive levels that share a board size into one tier
+const buildLevelTiers = (): LevelTier[] => {
+  const tiers: LevelTier[] = [];
+  let firstLevel = 1;
+
+  for (let level = 1; level <= MAX_LEVEL; level++) {
+    const size = getBoardSize(level);
+    const next = level < MAX_LEVEL ? getBoardSize(level + 1) : null;
+    if (next && next.rows === size.rows && next.cols === size.cols) continue;
+
+    const rows: number[][] = [];
+    for (let start = firstLevel; start <= level; start += LEVELS_PER_ROW) {
+      const row: number[] = [];
+      for (let l = start; l < Math.min(start + LEVELS_PER_ROW, level + 1); l++) {
+        row.push(l);
+      }
+      rows.push(row);
+    }
+
+    tiers.push({
+      title: `${size.rows}×${size.cols} Board`,
+      firstLevel,
+      lastLevel: level,
+      data: rows,
+    });
+    firstLevel = level + 1;
+  }
+
+  return tiers;
+};
+
+export default function LevelsScreen() {
+  const router = useRouter();
+  const { progress } = useProgress();
+  const tiers = useMemo(buildLevelTiers, []);
+
+  const handleLevelPress = useCallback((level: number) => {
+    console.log(`Launching level ${level} from the level map`);
+    // Picking a level abandons any level saved for resuming
+    clearGameSnapshot();
+    router.navigate({
+      pathname: '/(tabs)/(home)',
+      params: { level: String(level), launchedAt: String(Date.now()) },
+    });
+  }, [router]);
+
+  const renderLevel = (level: number) => {
+    const isLocked = level > progress.highestUnlockedLevel;
+    const record = progress.levels[level];
+    const stars = record?.stars ?? 0;
+    const isCurrent = level === progress.currentLevel;
+
+    return (
+      <TouchableOpacity
+        key={level}
+        style={[
+          styles.levelCell,
+          isLocked && styles.levelCellLocked,
+          isCurrent && styles.levelCellCurrent,
+        ]}
+        disabled={isLocked}
+        onPress={() => handleLevelPress(level)}
+        accessibilityRole="button"
+        accessibilityLabel={isLocked ? `Level ${level}, locked` : `Level ${level}, ${stars} stars`}
+      >
+        {isLocked ? (
+          <IconSymbol ios_icon_name="lock.fill" android_material_icon_name="lock" size={18} color="#555555" />
+        ) : (
+          <Text style={styles.levelNumber}>{level}</Text>
+        )}
+        {!isLocked && (
+          <Text style={styles.stars}>
+            {'★'.repeat(stars)}
+            <Text style={styles.starsEmpty}>{'★'.repeat(MAX_STARS - stars)}</Text>
+          </Text>
+        )}
+        {record && record.bestScore > 0 && (
+          <Text style={styles.bestScore} numberOfLines={1}>{record.bestScore}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <Text style={styles.title}>Levels</Text>
+      <Text style={styles.subtitle}>
+        {progress.highestUnlockedLevel - 1} of {MAX_LEVEL} completed
+      </Text>
+      <TouchableOpacity
+        style={styles.modeCard}
+        onPress={() => router.push('/blitz')}
+        accessibilityRole="button"
+        accessibilityLabel="Play Blitz"
+      >
+        <View>
+          <Text style={styles.modeTitle}>⚡ Blitz</Text>
+          <Text style={styles.modeDetails}>{BLITZ_SECONDS} seconds, as many points as you can</Text>
+        </View>
+        <Text style={styles.modeBest}>Best {progress.blitzScores[0]?.score ?? 0}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.modeCard, styles.endlessCard]}
+        onPress={() => router.push('/endless')}
+        accessibilityRole="button"
+        accessibilityLabel="Play Endless"
+      >
+        <View>
+          <Text style={styles.modeTitle}>∞ Endless</Text>
+          <Text style={styles.modeDetails}>No limits, the board grows as you score</Text>
+        </View>
+        <Text style={styles.modeBest}>Best {progress.endlessBestScore}</Text>
+      </TouchableOpacity>
+      <SectionList
+        sections={tiers}
+        keyExtractor={row => `row-${row[0]}`}
+        initialNumToRender={12}
+        stickySectionHeadersEnabled
+        contentContainerStyle={[
+          styles.contentContainer,
+          Platform.OS !== 'ios' && styles.contentContainerWithTabBar,
+        ]}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.tierHeader}>
+            <Text style={styles.tierTitle}>{section.title}</Text>
+            <Text style={styles.tierRange}>
+              Levels {section.firstLevel}–{section.lastLevel}
+            </Text>
+          </View>
+        )}
+        renderItem={({ item }) => <View style={styles.levelRow}>{item.map(renderLevel)}</View>}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#4169E1',
+    textAlign: 'center',
+    marginTop: 16,
+    fontFamily: 'Nunito_800ExtraBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  modeCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#F1C40F',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 14,
+  },
+  endlessCard: {
+    borderColor: '#9B59B6',
+  },
+  modeTitle: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
+  modeDetails: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888888',
+    marginTop: 2,
+  },
+  modeBest: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#F1C40F',
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+  },
+  contentContainerWithTabBar: {
+    paddingBottom: 100, // Extra padding for floating tab bar
+  },
+  tierHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    backgroundColor: '#000000',
+    paddingVertical: 10,
+  },
+  tierTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  tierRange: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#888888',
+  },
+  levelRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  levelCell: {
+    flex: 1,
+    maxWidth: `${100 / LEVELS_PER_ROW - 2}%` as `${number}%`,
+    aspectRatio: 0.85,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  levelCellLocked: {
+    backgroundColor: '#0a0a0a',
+    borderColor: '#0a0a0a',
+  },
+  levelCellCurrent: {
+    borderColor: '#4169E1',
+  },
+  levelNumber: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
+  stars: {
+    fontSize: 12,
+    color: '#F1C40F',
+    marginTop: 2,
+  },
+  starsEmpty: {
+    color: '#333333',
+  },
+  bestScore: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#888888',
+    marginTop: 2,
+  },
+});
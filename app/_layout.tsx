@@ -15,6 +15,7 @@ import {
 } from "@react-navigation/native";
 import { StatusBar } from "expo-status-bar";
 import { WidgetProvider } from "@/contexts/WidgetContext";
+import { ProgressProvider } from "@/contexts/ProgressContext";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -83,10 +84,14 @@ export default function RootLayout() {
           value={colorScheme === "dark" ? CustomDarkTheme : CustomDefaultTheme}
         >
           <WidgetProvider>
+            <ProgressProvider>
             <GestureHandlerRootView>
             <Stack>
               {/* Main app with tabs */}
               <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="blitz" options={{ title: "Blitz" }} />
+              <Stack.Screen name="endless" options={{ title: "Endless" }} />
+              <Stack.Screen name="daily" options={{ title: "Daily Challenge" }} />
 
               {/* Modal Demo Screens */}
               <Stack.Screen
@@ -116,6 +121,7 @@ export default function RootLayout() {
             </Stack>
             <SystemBars style={"auto"} />
             </GestureHandlerRootView>
+            </ProgressProvider>
           </WidgetProvider>
         </ThemeProvider>
     </>
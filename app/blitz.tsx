@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { GameBoard } from '@/components/GameBoard';
+import { useProgress } from '@/contexts/ProgressContext';
+import { BLITZ_SECONDS } from '@/utils/gameLogic';
+import { MAX_BLITZ_SCORES } from '@/utils/progress';
+
+// Blitz high-score table, and the board while a round is on
+export default function BlitzScreen() {
+  const { progress } = useProgress();
+  // Remounts the board for every new round
+  const [roundKey, setRoundKey] = useState<number | null>(null);
+
+  if (roundKey !== null) {
+    return (
+      <View style={styles.container}>
+        <GameBoard key={roundKey} mode="blitz" onExit={() => setRoundKey(null)} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Blitz</Text>
+      <Text style={styles.subtitle}>
+        {BLITZ_SECONDS} seconds on the clock. Big matches and cascades add time.
+      </Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>High Scores</Text>
+        {progress.blitzScores.length === 0 ? (
+          <Text style={styles.emptyText}>No rounds played yet</Text>
+        ) : (
+          progress.blitzScores.map((entry, index) => (
+            <View key={`${entry.playedAt}-${index}`} style={styles.scoreRow}>
+              <Text style={styles.rank}>{index + 1}</Text>
+              <Text style={styles.score}>{entry.score}</Text>
+              <Text style={styles.date}>{new Date(entry.playedAt).toLocaleDateString()}</Text>
+            </View>
+          ))
+        )}
+        {progress.blitzScores.length > 0 && (
+          <Text style={styles.footnote}>Top {MAX_BLITZ_SCORES} rounds are kept</Text>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.startButton} onPress={() => setRoundKey(Date.now())}>
+        <Text style={styles.startButtonText}>Start</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#4169E1',
+    textAlign: 'center',
+    marginTop: 20,
+    fontFamily: 'Nunito_800ExtraBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '90%',
+    backgroundColor: '#1a1a1a',
+    padding: 16,
+    borderRadius: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.3)',
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#4169E1',
+    marginBottom: 10,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rank: {
+    width: 28,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#F1C40F',
+  },
+  score: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  date: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888888',
+  },
+  footnote: {
+    fontSize: 11,
+    color: '#555555',
+    marginTop: 8,
+  },
+  startButton: {
+    backgroundColor: '#4169E1',
+    paddingVertical: 14,
+    paddingHorizontal: 48,
+    borderRadius: 25,
+    marginTop: 24,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { GameBoard } from '@/components/GameBoard';
+import { useProgress } from '@/contexts/ProgressContext';
+import { getDailyLevelConfig } from '@/utils/gameLogic';
+import { formatDateKey, getDateKey } from '@/utils/daily';
+import { getDailyStreak } from '@/utils/progress';
+
+// Recent days listed under today's challenge
+const RECENT_DAYS = 7;
+
+// Today's challenge, the player's streak and recent results, and the board while playing
+export default function DailyScreen() {
+  const { progress } = useProgress();
+  // Fixed when the screen opens so a challenge started before midnight is recorded for its own day
+  const [today] = useState(() => getDateKey());
+  const levelConfig = useMemo(() => getDailyLevelConfig(today), [today]);
+  // Remounts the board for every attempt
+  const [attemptKey, setAttemptKey] = useState<number | null>(null);
+
+  if (attemptKey !== null) {
+    return (
+      <View style={styles.container}>
+        <GameBoard key={attemptKey} mode="daily" dailyDate={today} onExit={() => setAttemptKey(null)} />
+      </View>
+    );
+  }
+
+  const todayResult = progress.daily.results[today];
+  const recentResults = Object.values(progress.daily.results)
+    .filter(result => result.date !== today)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_DAYS);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Daily Challenge</Text>
+      <Text style={styles.subtitle}>{formatDateKey(today)} · the same board for everyone today</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Today</Text>
+        <Text style={styles.objective}>{levelConfig.objective.description}</Text>
+        <Text style={styles.details}>
+          Board {levelConfig.boardSize.rows}×{levelConfig.boardSize.cols} · {levelConfig.moves} moves
+        </Text>
+        {todayResult && (
+          <Text style={[styles.details, todayResult.completed && styles.completed]}>
+            {todayResult.completed
+              ? `Completed ${'★'.repeat(todayResult.stars)} · ${todayResult.score} in ${todayResult.movesUsed} moves`
+              : `Best attempt: ${todayResult.score}`}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Streak</Text>
+        <Text style={styles.objective}>
+          🔥 {getDailyStreak(progress, today)} days · best {progress.daily.bestStreak}
+        </Text>
+        {recentResults.map(result => (
+          <View key={result.date} style={styles.resultRow}>
+            <Text style={styles.resultDate}>{formatDateKey(result.date)}</Text>
+            <Text style={styles.resultScore}>{result.score}</Text>
+            <Text style={result.completed ? styles.completed : styles.failed}>
+              {result.completed ? '★'.repeat(result.stars) : '✗'}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.startButton} onPress={() => setAttemptKey(Date.now())}>
+        <Text style={styles.startButtonText}>{todayResult ? 'Play Again' : 'Play'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#4169E1',
+    textAlign: 'center',
+    marginTop: 20,
+    fontFamily: 'Nunito_800ExtraBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '90%',
+    backgroundColor: '#1a1a1a',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.3)',
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#4169E1',
+    marginBottom: 6,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  objective: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  details: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#888888',
+    marginTop: 2,
+  },
+  completed: {
+    color: '#F1C40F',
+  },
+  failed: {
+    color: '#E74C3C',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  resultDate: {
+    width: 70,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#888888',
+  },
+  resultScore: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  startButton: {
+    backgroundColor: '#4169E1',
+    paddingVertical: 14,
+    paddingHorizontal: 48,
+    borderRadius: 25,
+    marginTop: 12,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { GameBoard } from '@/components/GameBoard';
+import { useProgress } from '@/contexts/ProgressContext';
+
+// Endless best score, and the board while a session is on
+export default function EndlessScreen() {
+  const { progress } = useProgress();
+  // Remounts the board for every new session
+  const [sessionKey, setSessionKey] = useState<number | null>(null);
+
+  if (sessionKey !== null) {
+    return (
+      <View style={styles.container}>
+        <GameBoard key={sessionKey} mode="endless" onExit={() => setSessionKey(null)} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Endless</Text>
+      <Text style={styles.subtitle}>
+        No moves limit and nothing to complete. More colors and bigger boards come as your score climbs.
+      </Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Best Session</Text>
+        <Text style={styles.bestScore}>{progress.endlessBestScore}</Text>
+      </View>
+
+      <TouchableOpacity style={styles.startButton} onPress={() => setSessionKey(Date.now())}>
+        <Text style={styles.startButtonText}>Start</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#4169E1',
+    textAlign: 'center',
+    marginTop: 20,
+    fontFamily: 'Nunito_800ExtraBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '90%',
+    backgroundColor: '#1a1a1a',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.3)',
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#4169E1',
+    marginBottom: 6,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  bestScore: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
+  startButton: {
+    backgroundColor: '#4169E1',
+    paddingVertical: 14,
+    paddingHorizontal: 48,
+    borderRadius: 25,
+    marginTop: 24,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -1,19 +1,44 @@
 
-import React, { useEffect, useRef } from 'react';
-import { Animated, TouchableOpacity, StyleSheet, Platform } from 'react-native';
-import { Candy } from '@/types/game';
-import { getCandyColor } from '@/utils/gameLogic';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Animated, StyleSheet, Platform, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Candy, Direction } from '@/types/game';
+import { getCandyColor, INGREDIENT_ICON, isIngredient } from '@/utils/gameLogic';
+
+// Drag distance before a pan starts, and fraction of a cell that commits a swipe
+const SWIPE_START_DISTANCE = 8;
+const SWIPE_THRESHOLD = 0.35;
 
 interface CandyPieceProps {
   candy: Candy;
   size: number;
   isSelected: boolean;
+  isHinted?: boolean;
+  // Caged candies can be matched but not moved
+  isLocked?: boolean;
+  // Direction matched candies fall away in
+  gravity?: Direction;
   onPress: () => void;
+  // Returns false when the swipe can't become a swap so the candy snaps back
+  onSwipe?: (direction: Direction) => boolean;
 }
 
-export const CandyPiece: React.FC<CandyPieceProps> = ({ candy, size, isSelected, onPress }) => {
+export const CandyPiece: React.FC<CandyPieceProps> = ({
+  candy,
+  size,
+  isSelected,
+  isHinted = false,
+  isLocked = false,
+  gravity = 'down',
+  onPress,
+  onSwipe,
+}) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
+  const dragX = useRef(new Animated.Value(0)).current;
+  const dragY = useRef(new Animated.Value(0)).current;
+  const hintAnim = useRef(new Animated.Value(1)).current;
   const opacityAnim = useRef(new Animated.Value(1)).current;
+  const translateXAnim = useRef(new Animated.Value(0)).current;
   const translateYAnim = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
@@ -39,9 +64,36 @@ export const CandyPiece: React.FC<CandyPieceProps> = ({ candy, size, isSelected,
     }
   }, [isSelected, scaleAnim]);
 
+  useEffect(() => {
+    if (!isHinted) {
+      hintAnim.setValue(1);
+      return;
+    }
+
+    // Pulse until the hint is dismissed
+    const pulse = Animated.loop(
+      Animated.sequence([
+        Animated.timing(hintAnim, {
+          toValue: 1.15,
+          duration: 400,
+          useNativeDriver: true,
+        }),
+        Animated.timing(hintAnim, {
+          toValue: 1,
+          duration: 400,
+          useNativeDriver: true,
+        }),
+      ])
+    );
+    pulse.start();
+    return () => pulse.stop();
+  }, [isHinted, hintAnim]);
+
   useEffect(() => {
     if (candy.isMatched) {
-      // Smooth falling animation without rotation - scale down and fall down the screen
+      // Smooth falling animation without rotation - scale down and fall off the board
+      // the way gravity points
+      const fall = FALL_OFFSETS[gravity];
       Animated.parallel([
         Animated.timing(scaleAnim, {
           toValue: 0.2,
@@ -53,8 +105,13 @@ export const CandyPiece: React.FC<CandyPieceProps> = ({ candy, size, isSelected,
           duration: 400,
           useNativeDriver: true,
         }),
+        Animated.timing(translateXAnim, {
+          toValue: fall.x,
+          duration: 400,
+          useNativeDriver: true,
+        }),
         Animated.timing(translateYAnim, {
-          toValue: 300,
+          toValue: fall.y,
           duration: 400,
           useNativeDriver: true,
         }),
@@ -63,37 +120,166 @@ export const CandyPiece: React.FC<CandyPieceProps> = ({ candy, size, isSelected,
       // Reset animations when candy is not matched
       scaleAnim.setValue(1);
       opacityAnim.setValue(1);
+      translateXAnim.setValue(0);
       translateYAnim.setValue(0);
     }
-  }, [candy.isMatched, scaleAnim, opacityAnim, translateYAnim]);
+  }, [candy.isMatched, gravity, scaleAnim, opacityAnim, translateXAnim, translateYAnim]);
+
+  // The candy has landed in its new cell, so drop the drag offset
+  useEffect(() => {
+    dragX.setValue(0);
+    dragY.setValue(0);
+  }, [candy.row, candy.col, dragX, dragY]);
+
+  const gesture = useMemo(() => {
+    const snapBack = () => {
+      Animated.parallel([
+        Animated.spring(dragX, { toValue: 0, useNativeDriver: true }),
+        Animated.spring(dragY, { toValue: 0, useNativeDriver: true }),
+      ]).start();
+    };
+
+    const pan = Gesture.Pan()
+      .runOnJS(true)
+      .enabled(!!onSwipe)
+      .minDistance(SWIPE_START_DISTANCE)
+      .onUpdate(event => {
+        // Follow the finger along the dominant axis, at most one cell
+        const horizontal = Math.abs(event.translationX) >= Math.abs(event.translationY);
+        const clamp = (value: number) => Math.max(-size, Math.min(size, value));
+        dragX.setValue(horizontal ? clamp(event.translationX) : 0);
+        dragY.setValue(horizontal ? 0 : clamp(event.translationY));
+      })
+      .onEnd(event => {
+        const horizontal = Math.abs(event.translationX) >= Math.abs(event.translationY);
+        const distance = horizontal ? event.translationX : event.translationY;
+        if (onSwipe && Math.abs(distance) >= size * SWIPE_THRESHOLD) {
+          const direction: Direction = horizontal
+            ? distance > 0 ? 'right' : 'left'
+            : distance > 0 ? 'down' : 'up';
+          if (onSwipe(direction)) return;
+        }
+        snapBack();
+      })
+      .onTouchesCancelled(snapBack);
+
+    // Tap-tap selection stays available as the accessible fallback
+    const tap = Gesture.Tap()
+      .runOnJS(true)
+      .onEnd((_event, success) => {
+        if (success) onPress();
+      });
 
-  const candyColor = getCandyColor(candy.type);
+    return Gesture.Race(pan, tap);
+  }, [size, onSwipe, onPress, dragX, dragY]);
+
+  const ingredient = isIngredient(candy);
+  const candyColor = ingredient ? INGREDIENT_BODY : getCandyColor(candy.type);
+  const isColorBomb = candy.special === 'color_bomb';
+  const candyLabel = ingredient
+    ? 'ingredient'
+    : `${candy.special ? candy.special.replace('_', ' ') + ' ' : ''}${candy.type} candy`;
+
+  const renderSpecialOverlay = () => {
+    if (ingredient) {
+      return (
+        <View style={styles.ingredient}>
+          <Text style={{ fontSize: size * 0.5 }}>{INGREDIENT_ICON}</Text>
+        </View>
+      );
+    }
+
+    switch (candy.special) {
+      case 'striped_horizontal':
+        return (
+          <View style={styles.stripesHorizontal}>
+            <View style={styles.stripe} />
+            <View style={styles.stripe} />
+            <View style={styles.stripe} />
+          </View>
+        );
+      case 'striped_vertical':
+        return (
+          <View style={styles.stripesVertical}>
+            <View style={styles.stripe} />
+            <View style={styles.stripe} />
+            <View style={styles.stripe} />
+          </View>
+        );
+      case 'wrapped':
+        return <View style={styles.wrapper} />;
+      case 'color_bomb':
+        return (
+          <View style={styles.sprinkles}>
+            {SPRINKLE_COLORS.map(color => (
+              <View key={color} style={[styles.sprinkle, { backgroundColor: color }]} />
+            ))}
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
 
   return (
-    <TouchableOpacity
-      onPress={onPress}
-      activeOpacity={0.7}
-      style={[styles.container, { width: size, height: size }]}
-    >
+    <GestureDetector gesture={gesture}>
       <Animated.View
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel={`${isLocked ? 'locked ' : ''}${candyLabel}`}
+        accessibilityState={{ selected: isSelected }}
+        onAccessibilityTap={onPress}
         style={[
-          styles.candy,
+          styles.container,
           {
-            backgroundColor: candyColor,
-            transform: [
-              { scale: scaleAnim },
-              { translateY: translateYAnim },
-            ],
-            opacity: opacityAnim,
-            borderColor: isSelected ? '#FFFFFF' : candyColor,
-            borderWidth: isSelected ? 3 : 0,
+            width: size,
+            height: size,
+            transform: [{ translateX: dragX }, { translateY: dragY }],
           },
         ]}
-      />
-    </TouchableOpacity>
+      >
+        <Animated.View
+          style={[
+            styles.candy,
+            (isColorBomb || ingredient) && styles.colorBomb,
+            {
+              backgroundColor: isColorBomb ? COLOR_BOMB_BODY : candyColor,
+              transform: [
+                { scale: Animated.multiply(scaleAnim, hintAnim) },
+                { translateX: translateXAnim },
+                { translateY: translateYAnim },
+              ],
+              opacity: opacityAnim,
+              borderColor: isSelected ? '#FFFFFF' : candyColor,
+              borderWidth: isSelected || isColorBomb ? 3 : 0,
+            },
+          ]}
+        >
+          {renderSpecialOverlay()}
+          {isLocked && (
+            <View style={styles.cage}>
+              <View style={styles.cageBar} />
+              <View style={styles.cageBar} />
+              <View style={styles.cageBar} />
+            </View>
+          )}
+        </Animated.View>
+      </Animated.View>
+    </GestureDetector>
   );
 };
 
+const FALL_DISTANCE = 300;
+const FALL_OFFSETS: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -FALL_DISTANCE },
+  down: { x: 0, y: FALL_DISTANCE },
+  left: { x: -FALL_DISTANCE, y: 0 },
+  right: { x: FALL_DISTANCE, y: 0 },
+};
+const COLOR_BOMB_BODY = '#3B2416';
+const INGREDIENT_BODY = '#4A2C2A';
+const SPRINKLE_COLORS = ['#E74C3C', '#3498DB', '#2ECC71', '#F1C40F', '#9B59B6', '#F39C12'];
+
 const styles = StyleSheet.create({
   container: {
     justifyContent: 'center',
@@ -119,4 +305,63 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  colorBomb: {
+    borderRadius: 100,
+  },
+  cage: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+    borderWidth: 2,
+    borderColor: '#2C3E50',
+    borderRadius: 12,
+  },
+  cageBar: {
+    width: 3,
+    backgroundColor: '#2C3E50',
+  },
+  ingredient: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stripesHorizontal: {
+    flex: 1,
+    justifyContent: 'space-evenly',
+    paddingHorizontal: 3,
+  },
+  stripesVertical: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+    paddingVertical: 3,
+  },
+  stripe: {
+    flexBasis: 3,
+    minWidth: 3,
+    minHeight: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+    borderRadius: 2,
+  },
+  wrapper: {
+    flex: 1,
+    margin: 4,
+    borderWidth: 3,
+    borderColor: 'rgba(255, 255, 255, 0.85)',
+    borderRadius: 8,
+  },
+  sprinkles: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignContent: 'center',
+    gap: 2,
+    padding: 4,
+  },
+  sprinkle: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+  },
 });
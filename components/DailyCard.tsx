@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useProgress } from '@/contexts/ProgressContext';
+import { getDailyLevelConfig } from '@/utils/gameLogic';
+import { formatDateKey, getDateKey } from '@/utils/daily';
+import { getDailyStreak } from '@/utils/progress';
+
+// Today's daily challenge with the player's result and streak; opens the challenge screen
+export const DailyCard: React.FC = () => {
+  const router = useRouter();
+  const { progress } = useProgress();
+  const today = getDateKey();
+  const objective = useMemo(() => getDailyLevelConfig(today).objective, [today]);
+  const result = progress.daily.results[today];
+  const streak = getDailyStreak(progress, today);
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => router.push('/daily')}
+      accessibilityRole="button"
+      accessibilityLabel={`Daily challenge, ${result?.completed ? 'completed' : 'not completed'}`}
+    >
+      <View style={styles.details}>
+        <Text style={styles.title}>📅 Daily · {formatDateKey(today)}</Text>
+        <Text style={styles.objective} numberOfLines={1}>{objective.description}</Text>
+      </View>
+      <View style={styles.status}>
+        {result?.completed ? (
+          <Text style={styles.completed}>
+            {'★'.repeat(result.stars)} {result.score}
+          </Text>
+        ) : (
+          <Text style={styles.play}>Play</Text>
+        )}
+        {streak > 0 && <Text style={styles.streak}>🔥 {streak}</Text>}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: '90%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#2ECC71',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 8,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.3)',
+      },
+    }),
+  },
+  details: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
+  objective: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888888',
+    marginTop: 2,
+  },
+  status: {
+    alignItems: 'flex-end',
+  },
+  completed: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#F1C40F',
+  },
+  play: {
+    fontSize: 14,
+    fontWeight: '800',
+    color: '#2ECC71',
+  },
+  streak: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#F39C12',
+    marginTop: 2,
+  },
+});
@@ -1,85 +1,326 @@
-
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { View, StyleSheet, Dimensions, Text, TouchableOpacity, Alert, Platform, ScrollView } from 'react-native';
+import { View, StyleSheet, Dimensions, Text, TouchableOpacity, Alert, Platform, ScrollView, AppState } from 'react-native';
 import { CandyPiece } from './CandyPiece';
-import { GameState, Position, CandyType } from '@/types/game';
+import { StarMeter } from './StarMeter';
+import {
+  BoosterType,
+  CandyType,
+  Direction,
+  GameAction,
+  GameEvent,
+  GameMode,
+  GameState,
+  LevelFailedReason,
+  MoveCandidate,
+  Position,
+} from '@/types/game';
 import {
-  createInitialBoard,
   areAdjacent,
-  swapCandies,
-  findMatches,
-  removeMatches,
-  applyGravity,
-  getLevelConfig,
-  isBoardCleared,
+  countChocolate,
   getCandyColor,
-  hasValidMoves,
-  randomizeBoard,
+  getEndlessLevelScore,
+  getLevelConfig,
+  INGREDIENT_ICON,
+  isSwappable,
 } from '@/utils/gameLogic';
+import {
+  createBlitzState,
+  createDailyState,
+  createEndlessState,
+  createLevelState,
+  EXTRA_MOVES,
+  gameReducer,
+  getHint,
+  getObjectiveProgress,
+} from '@/utils/gameEngine';
+import { generateSeed } from '@/utils/random';
+import { clearGameSnapshot, saveGameSnapshot } from '@/utils/savedGame';
+import { BOOSTER_TYPES, getBlitzRank, getLevelRewards, LevelResult } from '@/utils/progress';
+import { formatDateKey, getDateKey } from '@/utils/daily';
+import { useProgress } from '@/contexts/ProgressContext';
 import { colors } from '@/styles/commonStyles';
 import * as Haptics from 'expo-haptics';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
-export const GameBoard: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(() => {
-    const levelConfig = getLevelConfig(1);
-    return {
-      board: createInitialBoard(levelConfig.boardSize.rows, levelConfig.boardSize.cols, 1),
-      score: 0,
-      moves: levelConfig.moves,
-      level: 1,
-      selectedCandy: null,
-      isProcessing: false,
-      objective: levelConfig.objective,
-      collectedColors: {
-        red: 0,
-        blue: 0,
-        green: 0,
-        yellow: 0,
-        purple: 0,
-        orange: 0,
-      },
-    };
-  });
+const DIRECTION_OFFSETS: Record<Direction, Position> = {
+  up: { row: -1, col: 0 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 },
+};
+
+const GRAVITY_ARROWS: Record<Direction, string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+};
+
+// Idle time before the best move starts pulsing
+const HINT_DELAY_MS = 5000;
+
+const BOOSTER_ICONS: Record<BoosterType, string> = {
+  hammer: '🔨',
+  free_swap: '🔀',
+  shuffle: '🌀',
+  extra_moves: '➕',
+  hint: '💡',
+};
+
+const BOOSTER_NAMES: Record<BoosterType, string> = {
+  hammer: 'Hammer',
+  free_swap: 'Free Swap',
+  shuffle: 'Shuffle',
+  extra_moves: `+${EXTRA_MOVES} Moves`,
+  hint: 'Hint',
+};
+
+const FAILED_MESSAGES: Record<LevelFailedReason, string> = {
+  outOfMoves: 'You ran out of moves!',
+  noMatches: 'No more matches can be made!',
+};
+
+// Boosters that wait for the player to pick candies before they go off
+type TargetingBooster = Extract<BoosterType, 'hammer' | 'free_swap'>;
+
+// The countdown turns red from here
+const LOW_TIME_SECONDS = 10;
 
-  const gameStateRef = useRef(gameState);
-  
+const createModeState = (mode: GameMode, level: number, dailyDate: string): GameState => {
+  switch (mode) {
+    case 'blitz':
+      return createBlitzState(generateSeed());
+    case 'endless':
+      return createEndlessState(generateSeed());
+    case 'daily':
+      return createDailyState(dailyDate);
+    default:
+      return createLevelState(level, 0, generateSeed());
+  }
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface GameBoardProps {
+  initialLevel?: number;
+  // A saved level to resume instead of starting initialLevel
+  initialState?: GameState;
+  mode?: GameMode;
+  // Day of the daily challenge, today when not given
+  dailyDate?: string;
+  // Leaves a blitz round, endless session or daily challenge for the mode's start screen
+  onExit?: () => void;
+}
+
+export const GameBoard: React.FC<GameBoardProps> = ({
+  initialLevel = 1,
+  initialState,
+  mode = 'levels',
+  dailyDate: dailyDateProp,
+  onExit,
+}) => {
+  const progressContext = useProgress();
+  const [dailyDate] = useState(() => dailyDateProp ?? getDateKey());
+  const [gameState, setGameState] = useState<GameState>(
+    () => initialState ?? createModeState(mode, initialLevel, dailyDate)
+  );
+  const [comboText, setComboText] = useState<string | null>(null);
+  const [timeBonus, setTimeBonus] = useState<number | null>(null);
+  const [hintMove, setHintMove] = useState<MoveCandidate | null>(null);
+  const [targetingBooster, setTargetingBooster] = useState<TargetingBooster | null>(null);
+  const [isAppActive, setIsAppActive] = useState(AppState.currentState === 'active');
+
+  // Settled engine state. The rendered gameState lags behind it while a turn animates.
+  const engineStateRef = useRef(gameState);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set from the moment a turn is dispatched, before isProcessing reaches the render
+  const isAnimatingRef = useRef(false);
+
+  // Snapshot the level when the app goes to the background. The engine settles a
+  // whole turn (cascades included) before animating it, so engineStateRef never
+  // holds a half-finished cascade even if the UI is still mid-animation.
+  // Blitz rounds aren't resumable, their clock just pauses.
   useEffect(() => {
-    gameStateRef.current = gameState;
-  }, [gameState]);
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      setIsAppActive(nextAppState === 'active');
+      if (nextAppState !== 'background' && nextAppState !== 'inactive') return;
+      const state = engineStateRef.current;
+      if (state.mode !== 'levels') return;
+      if (state.status === 'playing') {
+        saveGameSnapshot(state);
+      } else {
+        clearGameSnapshot();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
 
   // Calculate cell size based on current board dimensions
   const boardRows = gameState.board.length;
   const boardCols = gameState.board[0]?.length || 0;
   const CELL_SIZE = Math.min((SCREEN_WIDTH - 40) / Math.max(boardRows, boardCols), 50);
 
-  const checkLevelComplete = useCallback((state: GameState): boolean => {
-    const { objective, collectedColors } = state;
-    
-    console.log('Checking level complete with state:', {
-      objective,
-      collectedColors
-    });
-    
-    if (objective.type === 'collect_colors' && objective.targetColors) {
-      // Check if all color targets are met
-      for (const [color, target] of Object.entries(objective.targetColors)) {
-        const collected = collectedColors[color as CandyType];
-        console.log(`Color ${color}: collected ${collected}, target ${target}`);
-        if (collected < target) {
-          console.log(`Level not complete - ${color} needs ${target - collected} more`);
-          return false;
-        }
+  // Replay the engine's events with animation delays, then show the settled state
+  const playEvents = useCallback(async (events: GameEvent[], finalState: GameState) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'swap':
+          setGameState(prev => ({ ...prev, board: event.board, selectedCandy: null }));
+          if (!event.valid && Platform.OS !== 'web') {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          }
+          await wait(event.valid ? 200 : 300);
+          break;
+        case 'specialSwap':
+          // Show the combo (and any candies a color bomb converted) before it goes off
+          setComboText(event.name);
+          setTimeout(() => setComboText(null), 1200);
+          setGameState(prev => ({ ...prev, board: event.board }));
+          await wait(300);
+          break;
+        case 'match':
+          if (event.detonated > 0 && Platform.OS !== 'web') {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+          }
+          setGameState(prev => ({ ...prev, board: event.board }));
+          // Wait for breaking animation to complete
+          await wait(450);
+          break;
+        case 'fall':
+          setGameState(prev => ({ ...prev, board: event.board }));
+          await wait(150);
+          break;
+        case 'refill':
+          setGameState(prev => ({ ...prev, board: event.board }));
+          await wait(250);
+          break;
+        case 'shuffle':
+          if (Platform.OS !== 'web') {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          }
+          // Wait a moment before randomizing
+          await wait(500);
+          setGameState(prev => ({ ...prev, board: event.board }));
+          break;
+        case 'chocolateSpread':
+          await wait(200);
+          setGameState(prev => ({ ...prev, board: event.board }));
+          await wait(300);
+          break;
+        case 'levelUp':
+          setComboText(`Level ${event.level}`);
+          setTimeout(() => setComboText(null), 1200);
+          setGameState(prev => ({ ...prev, level: event.level, board: event.board }));
+          await wait(500);
+          break;
+        case 'booster':
+          setComboText(BOOSTER_NAMES[event.booster]);
+          setTimeout(() => setComboText(null), 1200);
+          break;
+        case 'timeBonus':
+          setTimeBonus(event.seconds);
+          setTimeout(() => setTimeBonus(null), 1200);
+          break;
+        default:
+          break;
       }
-      console.log('Level complete! All targets met.');
-      return true;
     }
-    
-    return false;
+
+    if (events.some(event => event.type === 'match') && Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+
+    setGameState({ ...finalState, isProcessing: false });
   }, []);
 
-  const advanceToNextLevel = useCallback((currentScore: number, currentLevel: number) => {
+  const dispatch = useCallback(async (action: GameAction) => {
+    const { state: nextState, events } = gameReducer(engineStateRef.current, action);
+    engineStateRef.current = nextState;
+
+    if (events.length === 0) {
+      // A tick only moves the clock, so keep whatever the player has selected
+      setGameState(prev => (action.type === 'tick' ? { ...prev, timeLeft: nextState.timeLeft } : nextState));
+      return events;
+    }
+
+    isAnimatingRef.current = true;
+    setGameState(prev => ({ ...prev, isProcessing: true }));
+    await playEvents(events, nextState);
+    isAnimatingRef.current = false;
+    return events;
+  }, [playEvents]);
+
+  const {
+    progress,
+    startLevel: recordLevelStarted,
+    completeLevel,
+    updateBestScore,
+    addBlitzScore,
+    updateEndlessBest,
+    addDailyResult,
+    spendBooster,
+  } = progressContext;
+
+  // An endless session never ends by itself, so its score counts towards the best
+  // whenever the player leaves the board or the app
+  useEffect(() => {
+    const engineState = engineStateRef;
+    const recordEndless = () => {
+      if (engineState.current.mode === 'endless') {
+        updateEndlessBest(engineState.current.score);
+      }
+    };
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'background') recordEndless();
+    });
+    return () => {
+      subscription.remove();
+      recordEndless();
+    };
+  }, [updateEndlessBest]);
+
+  // Remember the mounted level so a level picked on the map becomes the current one
+  useEffect(() => {
+    if (engineStateRef.current.mode === 'levels') {
+      recordLevelStarted(engineStateRef.current.level);
+    }
+  }, [recordLevelStarted]);
+
+  const startLevel = useCallback((level: number, score: number) => {
+    console.log(`Setting up level ${level}`);
+    recordLevelStarted(level);
+    dispatch({ type: 'startLevel', level, score, seed: generateSeed() });
+  }, [dispatch, recordLevelStarted]);
+
+  // Start the current level over with a fresh score; saved progress is kept
+  const resetGame = useCallback(() => {
+    console.log('Resetting game');
+    if (engineStateRef.current.mode === 'blitz') {
+      dispatch({ type: 'startBlitz', seed: generateSeed() });
+      return;
+    }
+    if (engineStateRef.current.mode === 'endless') {
+      updateEndlessBest(engineStateRef.current.score);
+      dispatch({ type: 'startEndless', seed: generateSeed() });
+      return;
+    }
+    if (engineStateRef.current.mode === 'daily') {
+      dispatch({ type: 'startDaily', date: dailyDate });
+      return;
+    }
+    startLevel(engineStateRef.current.level, 0);
+  }, [dispatch, startLevel, updateEndlessBest, dailyDate]);
+
+  const showLevelComplete = useCallback((
+    currentLevel: number,
+    currentScore: number,
+    stars: number,
+    movesBonus: number,
+    rewards: BoosterType[]
+  ) => {
     console.log('Advancing to next level');
     if (Platform.OS !== 'web') {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -87,212 +328,304 @@ export const GameBoard: React.FC = () => {
     
     const nextLevel = currentLevel + 1;
     const nextLevelConfig = getLevelConfig(nextLevel);
+    const rewardText = rewards.length > 0
+      ? `\nReward: ${rewards.map(type => `${BOOSTER_ICONS[type]} ${BOOSTER_NAMES[type]}`).join(', ')}`
+      : '';
     
     Alert.alert(
       'Level Complete! 🎉',
-      `Congratulations! You&apos;ve completed level ${currentLevel}!\n\nNext Level: ${nextLevel}\nBoard size: ${nextLevelConfig.boardSize.rows}×${nextLevelConfig.boardSize.cols}\nMoves: ${nextLevelConfig.moves}`,
+      `Congratulations! You&apos;ve completed level ${currentLevel}!\n\n${'★'.repeat(stars)}${'☆'.repeat(3 - stars)}\nMoves bonus: ${movesBonus}${rewardText}\n\nNext Level: ${nextLevel}\nBoard size: ${nextLevelConfig.boardSize.rows}×${nextLevelConfig.boardSize.cols}\nMoves: ${nextLevelConfig.moves}`,
       [
         {
           text: 'Continue',
+          onPress: () => startLevel(nextLevel, currentScore),
+        },
+      ]
+    );
+  }, [startLevel]);
+
+  // Carry on a level that ran out of moves; the booster is only spent if the engine took it
+  const continueWithExtraMoves = useCallback(async () => {
+    const events = await dispatch({ type: 'extraMoves' });
+    if (events.length > 0) {
+      spendBooster('extra_moves');
+    }
+  }, [dispatch, spendBooster]);
+
+  const extraMovesLeft = progress.boosters.extra_moves;
+  // Extra moves only help when the moves ran out, not when the board is stuck
+  const getExtraMovesButtons = useCallback((reason: LevelFailedReason) => (
+    reason === 'outOfMoves' && extraMovesLeft > 0
+      ? [{ text: `${BOOSTER_NAMES.extra_moves} (${extraMovesLeft})`, onPress: continueWithExtraMoves }]
+      : []
+  ), [extraMovesLeft, continueWithExtraMoves]);
+
+  const showLevelFailed = useCallback((currentLevel: number, currentScore: number, reason: LevelFailedReason) => {
+    Alert.alert(
+      'Level Failed',
+      `${FAILED_MESSAGES[reason]}\n\nFinal Score: ${currentScore}\nLevel: ${currentLevel}`,
+      [
+        ...getExtraMovesButtons(reason),
+        {
+          text: 'Try Again',
+          onPress: () => startLevel(currentLevel, currentScore),
+        },
+        {
+          text: 'Main Menu',
+          onPress: resetGame,
+        },
+      ]
+    );
+  }, [startLevel, resetGame, getExtraMovesButtons]);
+
+  const showTimeUp = useCallback((score: number, rank: number | null) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+
+    const result =
+      rank === 0 ? `New high score: ${score}! 🏆` :
+      rank !== null ? `Score: ${score}\n#${rank + 1} in your high scores` :
+      `Score: ${score}`;
+    Alert.alert(
+      'Time\'s Up! ⏱',
+      result,
+      [
+        ...(onExit ? [{ text: 'High Scores', onPress: onExit }] : []),
+        {
+          text: 'Play Again',
+          onPress: resetGame,
+        },
+      ]
+    );
+  }, [onExit, resetGame]);
+
+  // Endless sessions end when the player quits them
+  const showSessionSummary = useCallback(() => {
+    const state = engineStateRef.current;
+    const isNewBest = state.score > progress.endlessBestScore;
+    Alert.alert(
+      'Session Summary',
+      `Score: ${state.score}${isNewBest ? ' 🏆 New best!' : ''}\nMoves played: ${state.movesPlayed}\nLevel reached: ${state.level}\nBoard size: ${state.board.length}×${state.board[0].length}`,
+      [
+        {
+          text: 'Keep Playing',
+          style: 'cancel',
+        },
+        {
+          text: 'Finish',
           onPress: () => {
-            console.log(`Setting up level ${nextLevel}`);
-            setGameState({
-              board: createInitialBoard(
-                nextLevelConfig.boardSize.rows,
-                nextLevelConfig.boardSize.cols,
-                nextLevel
-              ),
-              score: currentScore,
-              moves: nextLevelConfig.moves,
-              level: nextLevel,
-              selectedCandy: null,
-              isProcessing: false,
-              objective: nextLevelConfig.objective,
-              collectedColors: {
-                red: 0,
-                blue: 0,
-                green: 0,
-                yellow: 0,
-                purple: 0,
-                orange: 0,
-              },
-            });
+            updateEndlessBest(state.score);
+            if (onExit) {
+              onExit();
+            } else {
+              resetGame();
+            }
           },
         },
       ]
     );
-  }, []);
+  }, [progress.endlessBestScore, updateEndlessBest, onExit, resetGame]);
 
-  const checkAndRandomizeIfNeeded = useCallback(async (currentBoard: (any | null)[][]) => {
-    console.log('Checking if board has valid moves...');
-    
-    // Check if there are any valid moves
-    if (!hasValidMoves(currentBoard)) {
-      console.log('No valid moves found! Randomizing board...');
-      
-      // Show a brief message to the user
-      if (Platform.OS !== 'web') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+  const handleQuitPress = () => {
+    if (gameState.isProcessing) return;
+    showSessionSummary();
+  };
+
+  const tick = useCallback(async () => {
+    if (isAnimatingRef.current) return;
+    const events = await dispatch({ type: 'tick', seconds: 1 });
+
+    for (const event of events) {
+      if (event.type === 'timeUp') {
+        const rank = getBlitzRank(progress, event.score);
+        addBlitzScore({ score: event.score, playedAt: Date.now() });
+        setTimeout(() => showTimeUp(event.score, rank), 500);
       }
-      
-      // Wait a moment before randomizing
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Randomize the board
-      const randomizedBoard = randomizeBoard(currentBoard, gameStateRef.current.level);
-      
-      // Update the board state
-      setGameState(prev => ({
-        ...prev,
-        board: randomizedBoard,
-        isProcessing: false,
-      }));
-      
-      console.log('Board randomized successfully');
-      return true;
     }
-    
-    console.log('Valid moves available');
-    return false;
-  }, []);
+  }, [dispatch, progress, addBlitzScore, showTimeUp]);
 
-  const processMatchesWithBoard = useCallback(async (initialBoard: (any | null)[][], initialMatchedCandies: Position[]) => {
-    console.log('Starting processMatches with board');
-    let currentBoard = initialBoard.map(row => [...row]);
-    let totalMatches = 0;
-    let hasMatches = true;
-    let iterations = 0;
-    const maxIterations = 20;
-    const currentLevel = gameStateRef.current.level;
-    const currentScore = gameStateRef.current.score;
-    const currentCollected = { ...gameStateRef.current.collectedColors };
-
-    // Track colors ONLY from initial matches (user's move)
-    console.log('Tracking initial matched candies:', initialMatchedCandies.length);
-    initialMatchedCandies.forEach(({ row, col }) => {
-      const candy = currentBoard[row][col];
-      if (candy) {
-        currentCollected[candy.type]++;
-        console.log(`Collected ${candy.type}, new count: ${currentCollected[candy.type]}`);
-      }
-    });
+  // The latest tick, so the clock's interval never has to be recreated
+  const tickRef = useRef(tick);
+  useEffect(() => {
+    tickRef.current = tick;
+  }, [tick]);
 
-    // Update collected colors immediately after counting initial matches
-    setGameState(prev => ({
-      ...prev,
-      collectedColors: { ...currentCollected },
-    }));
-
-    while (hasMatches && iterations < maxIterations) {
-      iterations++;
-      console.log(`Processing iteration ${iterations}`);
-      const matches = findMatches(currentBoard);
-      
-      if (matches.length === 0) {
-        console.log('No more matches found');
-        hasMatches = false;
-        break;
-      }
+  // One interval runs for the whole round so partial seconds carry over between
+  // moves. Ticks are skipped while cascades play; a backgrounded app stops the clock
+  const isTimed = gameState.timeLeft !== null;
+  useEffect(() => {
+    if (!isTimed || gameState.status !== 'playing' || !isAppActive) {
+      return;
+    }
+    const interval = setInterval(() => tickRef.current(), 1000);
+    return () => clearInterval(interval);
+  }, [isTimed, gameState.status, isAppActive]);
 
-      console.log(`Found ${matches.length} matches in iteration ${iterations}`);
-      totalMatches += matches.length;
-      
-      // DO NOT track cascading matches for objective - only count initial matches
+  const showDailyResult = useCallback((
+    score: number,
+    stars: number,
+    movesUsed: number,
+    failedReason: LevelFailedReason | null
+  ) => {
+    const completed = failedReason === null;
+    if (completed && Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+
+    Alert.alert(
+      completed ? 'Daily Challenge Complete! 🎉' : 'Daily Challenge Failed',
+      completed
+        ? `${'★'.repeat(stars)}${'☆'.repeat(3 - stars)}\nScore: ${score}\nMoves used: ${movesUsed}`
+        : `${FAILED_MESSAGES[failedReason]}\n\nScore: ${score}`,
+      [
+        ...(completed ? [] : getExtraMovesButtons(failedReason)),
+        {
+          text: 'Try Again',
+          onPress: resetGame,
+        },
+        ...(onExit ? [{ text: 'Done', onPress: onExit }] : []),
+      ]
+    );
+  }, [resetGame, onExit, getExtraMovesButtons]);
 
-      // Mark candies as matched for breaking animation
-      const boardWithMatches = currentBoard.map(row => [...row]);
-      matches.forEach(({ row, col }) => {
-        if (boardWithMatches[row][col]) {
-          boardWithMatches[row][col]!.isMatched = true;
+  // Record and announce how a move or booster ended the level
+  const handleTurnEvents = useCallback((events: GameEvent[]) => {
+    // Daily results are kept apart from the level progression
+    if (engineStateRef.current.mode === 'daily') {
+      const { movesPlayed } = engineStateRef.current;
+      for (const event of events) {
+        if (event.type === 'levelComplete' || event.type === 'levelFailed') {
+          const completed = event.type === 'levelComplete';
+          const stars = event.type === 'levelComplete' ? event.stars : 0;
+          const failedReason = event.type === 'levelFailed' ? event.reason : null;
+          addDailyResult({ date: dailyDate, score: event.score, movesUsed: movesPlayed, completed, stars });
+          setTimeout(() => showDailyResult(event.score, stars, movesPlayed, failedReason), 500);
         }
-      });
+      }
+      return;
+    }
 
-      // Update state to show breaking animation
-      setGameState(prev => ({
-        ...prev,
-        board: boardWithMatches,
-      }));
+    for (const event of events) {
+      if (event.type === 'levelComplete' || event.type === 'levelFailed') {
+        clearGameSnapshot();
+      }
 
-      // Wait for breaking animation to complete
-      await new Promise(resolve => setTimeout(resolve, 450));
+      if (event.type === 'levelComplete') {
+        const result: LevelResult = {
+          level: event.level,
+          levelScore: engineStateRef.current.levelScore,
+          totalScore: event.score,
+          stars: event.stars,
+        };
+        const rewards = getLevelRewards(progress, result);
+        completeLevel(result);
+        setTimeout(() => showLevelComplete(event.level, event.score, event.stars, event.movesBonus, rewards), 500);
+      } else if (event.type === 'levelFailed') {
+        updateBestScore(event.score);
+        setTimeout(() => showLevelFailed(event.level, event.score, event.reason), 500);
+      }
+    }
+  }, [
+    progress,
+    showLevelComplete,
+    showLevelFailed,
+    completeLevel,
+    updateBestScore,
+    addDailyResult,
+    dailyDate,
+    showDailyResult,
+  ]);
 
-      // Remove matches
-      console.log('Removing matches');
-      currentBoard = removeMatches(boardWithMatches, matches);
+  const swap = useCallback(async (from: Position, to: Position) => {
+    handleTurnEvents(await dispatch({ type: 'swap', from, to }));
+  }, [dispatch, handleTurnEvents]);
 
-      // Apply gravity to make candies fall
-      console.log('Applying gravity');
-      currentBoard = applyGravity(currentBoard, currentLevel);
+  // A booster is spent only once the engine has applied it
+  const applyBooster = useCallback(async (type: BoosterType, action: GameAction) => {
+    setTargetingBooster(null);
+    const events = await dispatch(action);
+    if (events.length > 0) {
+      spendBooster(type);
+      handleTurnEvents(events);
+    }
+  }, [dispatch, spendBooster, handleTurnEvents]);
 
-      // Update state to show falling animation
-      setGameState(prev => ({
-        ...prev,
-        board: currentBoard,
-      }));
+  const showHint = useCallback(() => {
+    const hint = getHint(engineStateRef.current);
+    console.log('Showing hint:', hint);
+    setHintMove(hint);
+  }, []);
 
-      // Wait for falling animation to complete
-      await new Promise(resolve => setTimeout(resolve, 400));
+  const clearIdleTimer = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
     }
+    setHintMove(null);
+  }, []);
 
-    console.log(`Total matches processed: ${totalMatches}`);
-    console.log('Final collected colors:', currentCollected);
+  const resetIdleTimer = useCallback(() => {
+    clearIdleTimer();
+    idleTimerRef.current = setTimeout(showHint, HINT_DELAY_MS);
+  }, [clearIdleTimer, showHint]);
 
-    if (totalMatches > 0) {
-      if (Platform.OS !== 'web') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      }
-      
-      const points = totalMatches * 10 * currentLevel;
-      console.log(`Adding ${points} points to score`);
-      
-      const updatedState: GameState = {
-        ...gameStateRef.current,
-        board: currentBoard,
-        score: currentScore + points,
-        collectedColors: { ...currentCollected },
-        isProcessing: false,
-      };
-
-      setGameState(updatedState);
-
-      // Check if level is complete after a short delay to ensure state is updated
-      setTimeout(() => {
-        // Use the most recent state from ref
-        const latestState = gameStateRef.current;
-        console.log('Checking level completion with latest state:', {
-          collectedColors: latestState.collectedColors,
-          targetColors: latestState.objective.targetColors
-        });
-        
-        if (checkLevelComplete(latestState)) {
-          console.log('Level complete detected!');
-          advanceToNextLevel(latestState.score, latestState.level);
-        } else {
-          console.log('Level not complete yet, checking for valid moves');
-          // Level not complete, check if board needs randomization
-          checkAndRandomizeIfNeeded(currentBoard);
-        }
-      }, 500);
-    } else {
-      console.log('No matches to process, checking for valid moves');
-      setGameState(prev => ({ ...prev, isProcessing: false }));
-      
-      // Check if board needs randomization after a short delay
-      setTimeout(() => {
-        checkAndRandomizeIfNeeded(currentBoard);
-      }, 300);
+  // Start the idle countdown whenever the board is waiting for the player
+  useEffect(() => {
+    if (gameState.isProcessing || gameState.status !== 'playing') {
+      clearIdleTimer();
+      return;
     }
-  }, [checkLevelComplete, advanceToNextLevel, checkAndRandomizeIfNeeded]);
+    resetIdleTimer();
+    return clearIdleTimer;
+  }, [gameState.isProcessing, gameState.status, resetIdleTimer, clearIdleTimer]);
+
+  // The idle hint is free; asking for one straight away spends a hint booster
+  const hintsLeft = progress.boosters.hint;
+  const handleHintPress = () => {
+    if (gameState.isProcessing || gameState.status !== 'playing' || hintsLeft <= 0) return;
+    const hint = getHint(engineStateRef.current);
+    if (!hint) return;
+    console.log('Showing hint:', hint);
+    spendBooster('hint');
+    setHintMove(hint);
+  };
+
+  const canUndo =
+    !gameState.isProcessing &&
+    gameState.status === 'playing' &&
+    gameState.undosLeft > 0 &&
+    gameState.history.length > 0;
+
+  const handleUndoPress = () => {
+    if (!canUndo) return;
+    console.log('Undoing last move');
+    resetIdleTimer();
+    dispatch({ type: 'undo' });
+  };
 
   const handleCandyPress = useCallback(
-    async (row: number, col: number) => {
-      if (gameState.isProcessing || gameState.moves <= 0) {
-        console.log('Cannot press candy - processing or no moves left');
+    (row: number, col: number) => {
+      if (gameState.isProcessing || gameState.status !== 'playing') {
+        console.log('Cannot press candy - processing or level over');
         return;
       }
 
+      resetIdleTimer();
+
       const position: Position = { row, col };
 
+      // The hammer lands on caged candies too: a free candy is smashed, a caged one only freed
+      if (targetingBooster === 'hammer') {
+        applyBooster('hammer', { type: 'hammer', position });
+        return;
+      }
+
+      if (!isSwappable(gameState.board, position)) {
+        console.log('Candy is locked and cannot be moved');
+        return;
+      }
+
       if (!gameState.selectedCandy) {
         // First selection
         console.log('First candy selected:', position);
@@ -314,47 +647,13 @@ export const GameBoard: React.FC = () => {
 
         if (areAdjacent(gameState.selectedCandy, position)) {
           console.log('Adjacent candies - attempting swap');
-          setGameState(prev => ({ ...prev, isProcessing: true }));
           if (Platform.OS !== 'web') {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
           }
-
-          // Swap candies
-          let newBoard = swapCandies(gameState.board, gameState.selectedCandy, position);
-          
-          // Check for matches
-          const matches = findMatches(newBoard);
-
-          if (matches.length > 0) {
-            // Valid move
-            console.log('Valid move - matches found:', matches.length);
-            setGameState(prev => ({
-              ...prev,
-              board: newBoard,
-              selectedCandy: null,
-              moves: prev.moves - 1,
-            }));
-
-            // Process matches after a short delay
-            setTimeout(() => {
-              processMatchesWithBoard(newBoard, matches);
-            }, 200);
+          if (targetingBooster === 'free_swap') {
+            applyBooster('free_swap', { type: 'freeSwap', from: gameState.selectedCandy, to: position });
           } else {
-            // Invalid move - swap back
-            console.log('Invalid move - no matches, swapping back');
-            if (Platform.OS !== 'web') {
-              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-            }
-            
-            setTimeout(() => {
-              newBoard = swapCandies(newBoard, gameState.selectedCandy!, position);
-              setGameState(prev => ({
-                ...prev,
-                board: newBoard,
-                selectedCandy: null,
-                isProcessing: false,
-              }));
-            }, 300);
+            swap(gameState.selectedCandy, position);
           }
         } else {
           // Not adjacent - select new candy
@@ -366,83 +665,177 @@ export const GameBoard: React.FC = () => {
         }
       }
     },
-    [gameState, processMatchesWithBoard]
+    [gameState, swap, resetIdleTimer, targetingBooster, applyBooster]
   );
 
-  const resetGame = () => {
-    console.log('Resetting game');
-    const levelConfig = getLevelConfig(1);
-    setGameState({
-      board: createInitialBoard(levelConfig.boardSize.rows, levelConfig.boardSize.cols, 1),
-      score: 0,
-      moves: levelConfig.moves,
-      level: 1,
-      selectedCandy: null,
-      isProcessing: false,
-      objective: levelConfig.objective,
-      collectedColors: {
-        red: 0,
-        blue: 0,
-        green: 0,
-        yellow: 0,
-        purple: 0,
-        orange: 0,
-      },
-    });
-  };
+  // Swipe-to-swap with the neighbor in the swipe direction
+  const handleCandySwipe = useCallback(
+    (row: number, col: number, direction: Direction): boolean => {
+      if (gameState.isProcessing || gameState.status !== 'playing' || targetingBooster === 'hammer') {
+        console.log('Cannot swipe candy - processing, level over or aiming the hammer');
+        return false;
+      }
 
-  useEffect(() => {
-    if (gameState.moves <= 0 && !gameState.isProcessing) {
-      console.log('Game over - no moves left');
-      
-      // Check if objective was completed
-      const isComplete = checkLevelComplete(gameState);
-      
-      if (!isComplete) {
-        setTimeout(() => {
-          Alert.alert(
-            'Level Failed',
-            `You ran out of moves!\n\nFinal Score: ${gameState.score}\nLevel: ${gameState.level}`,
-            [
-              {
-                text: 'Try Again',
-                onPress: () => {
-                  const levelConfig = getLevelConfig(gameState.level);
-                  setGameState(prev => ({
-                    ...prev,
-                    board: createInitialBoard(
-                      levelConfig.boardSize.rows,
-                      levelConfig.boardSize.cols,
-                      gameState.level
-                    ),
-                    moves: levelConfig.moves,
-                    selectedCandy: null,
-                    isProcessing: false,
-                    collectedColors: {
-                      red: 0,
-                      blue: 0,
-                      green: 0,
-                      yellow: 0,
-                      purple: 0,
-                      orange: 0,
-                    },
-                  }));
-                },
-              },
-              {
-                text: 'Main Menu',
-                onPress: resetGame,
-              },
-            ]
-          );
-        }, 500);
+      const offset = DIRECTION_OFFSETS[direction];
+      const target: Position = { row: row + offset.row, col: col + offset.col };
+      if (
+        target.row < 0 ||
+        target.row >= gameState.board.length ||
+        target.col < 0 ||
+        target.col >= gameState.board[0].length ||
+        !isSwappable(gameState.board, target)
+      ) {
+        return false;
       }
+
+      console.log(`Swiped ${direction} from (${row},${col})`);
+      resetIdleTimer();
+      if (Platform.OS !== 'web') {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      }
+      if (targetingBooster === 'free_swap') {
+        applyBooster('free_swap', { type: 'freeSwap', from: { row, col }, to: target });
+      } else {
+        swap({ row, col }, target);
+      }
+      return true;
+    },
+    [gameState, swap, resetIdleTimer, targetingBooster, applyBooster]
+  );
+
+  const handleBoosterPress = (type: BoosterType) => {
+    if (gameState.isProcessing || gameState.status !== 'playing' || progress.boosters[type] <= 0) return;
+    resetIdleTimer();
+
+    if (type === 'shuffle') {
+      applyBooster('shuffle', { type: 'shuffle' });
+    } else if (type === 'hammer' || type === 'free_swap') {
+      // Pressing the booster being aimed puts it away again
+      console.log(`Aiming ${type}`);
+      setTargetingBooster(prev => (prev === type ? null : type));
+      setGameState(prev => ({ ...prev, selectedCandy: null }));
     }
-  }, [gameState.moves, gameState.isProcessing, gameState.score, gameState.level, checkLevelComplete]);
+  };
+
+  // Extra moves only mean something with a move limit, and are offered when the moves run out.
+  // Hints are spent from the Hint button
+  const boosterTypes = BOOSTER_TYPES.filter(
+    type => type !== 'hint' && (type !== 'extra_moves' || gameState.mode === 'levels' || gameState.mode === 'daily')
+  );
+
+  // Cells candies come out of a portal at
+  const portalExits = new Set(
+    gameState.board.flatMap(row => row.flatMap(({ tile }) => (tile.portal ? [`${tile.portal.row}-${tile.portal.col}`] : [])))
+  );
 
   const renderObjectiveProgress = () => {
     const { objective, collectedColors } = gameState;
+
+    if (objective.type === 'high_score' && gameState.mode === 'endless') {
+      const levelStart = getEndlessLevelScore(gameState.level);
+      const nextLevel = getEndlessLevelScore(gameState.level + 1);
+      const progress = (gameState.score - levelStart) / (nextLevel - levelStart);
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Endless</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${Math.min(progress, 1) * 100}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            Level {gameState.level + 1} at {nextLevel}
+          </Text>
+        </View>
+      );
+    }
+
+    if (objective.type === 'high_score') {
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Blitz</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <Text style={styles.progressText}>Big matches and cascades add time</Text>
+        </View>
+      );
+    }
+
+    if (objective.type === 'reach_score') {
+      const { current, target } = getObjectiveProgress(gameState);
+      const progress = target > 0 ? current / target : 1;
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Objective</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {gameState.levelScore} / {target}
+          </Text>
+        </View>
+      );
+    }
+
+    if (objective.type === 'clear_board') {
+      const { current, target } = getObjectiveProgress(gameState);
+      const toDrop = (gameState.columnSupply ?? []).reduce((sum, count) => sum + count, 0);
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Objective</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <View style={styles.colorTargetsContainer}>
+            <View style={styles.colorTarget}>
+              <Text style={styles.colorTargetText}>{target - current} left to clear</Text>
+            </View>
+            <View style={styles.colorTarget}>
+              <Text style={[styles.colorTargetText, toDrop === 0 && styles.supplyEmpty]}>
+                {toDrop} still to drop
+              </Text>
+            </View>
+          </View>
+        </View>
+      );
+    }
     
+    if (objective.type === 'clear_chocolate') {
+      const { current, target } = getObjectiveProgress(gameState);
+      const remaining = countChocolate(gameState.board);
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Objective</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <View style={styles.colorTargetsContainer}>
+            <View style={styles.colorTarget}>
+              <View style={[styles.colorDot, styles.chocolateTile]} />
+              <Text style={[styles.colorTargetText, remaining > target && styles.chocolateGrowing]}>
+                {remaining} left
+              </Text>
+              {current >= target && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+          </View>
+        </View>
+      );
+    }
+
+    if (objective.type === 'drop_ingredients') {
+      const { current, target } = getObjectiveProgress(gameState);
+      return (
+        <View style={styles.objectiveContainer}>
+          <Text style={styles.objectiveTitle}>Objective</Text>
+          <Text style={styles.objectiveText}>{objective.description}</Text>
+          <View style={styles.colorTargetsContainer}>
+            <View style={styles.colorTarget}>
+              <Text style={styles.ingredientIcon}>{INGREDIENT_ICON}</Text>
+              <Text style={[styles.colorTargetText, current >= target && styles.colorTargetComplete]}>
+                {target - current} left
+              </Text>
+              {current >= target && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+          </View>
+        </View>
+      );
+    }
+
     if (objective.type === 'collect_colors' && objective.targetColors) {
       return (
         <View style={styles.objectiveContainer}>
@@ -488,51 +881,181 @@ export const GameBoard: React.FC = () => {
           <Text style={styles.statLabel}>Score</Text>
           <Text style={styles.statValue}>{gameState.score}</Text>
         </View>
-        <View style={styles.statContainer}>
-          <Text style={styles.statLabel}>Level</Text>
-          <Text style={styles.statValue}>{gameState.level}</Text>
-        </View>
-        <View style={styles.statContainer}>
-          <Text style={styles.statLabel}>Moves</Text>
-          <Text style={[styles.statValue, gameState.moves <= 5 && styles.lowMoves]}>
-            {gameState.moves}
-          </Text>
-        </View>
+        {gameState.timeLeft !== null ? (
+          <>
+            <View style={styles.statContainer}>
+              <Text style={styles.statLabel}>Time</Text>
+              <Text style={[styles.statValue, gameState.timeLeft <= LOW_TIME_SECONDS && styles.lowMoves]}>
+                {formatTime(gameState.timeLeft)}
+              </Text>
+              {timeBonus !== null && <Text style={styles.timeBonus}>+{timeBonus}s</Text>}
+            </View>
+            <View style={styles.statContainer}>
+              <Text style={styles.statLabel}>Best</Text>
+              <Text style={styles.statValue}>{progress.blitzScores[0]?.score ?? 0}</Text>
+            </View>
+          </>
+        ) : (
+          <>
+            {gameState.mode === 'daily' ? (
+              <View style={styles.statContainer}>
+                <Text style={styles.statLabel}>Daily</Text>
+                <Text style={styles.statValue}>{formatDateKey(dailyDate)}</Text>
+              </View>
+            ) : (
+              <View style={styles.statContainer}>
+                <Text style={styles.statLabel}>Level</Text>
+                <Text style={styles.statValue}>{gameState.level}</Text>
+              </View>
+            )}
+            {gameState.mode === 'endless' ? (
+              <View style={styles.statContainer}>
+                <Text style={styles.statLabel}>Played</Text>
+                <Text style={styles.statValue}>{gameState.movesPlayed}</Text>
+              </View>
+            ) : (
+              <View style={styles.statContainer}>
+                <Text style={styles.statLabel}>Moves</Text>
+                <Text style={[styles.statValue, gameState.moves <= 5 && styles.lowMoves]}>
+                  {gameState.moves}
+                </Text>
+              </View>
+            )}
+          </>
+        )}
       </View>
 
+      {gameState.mode !== 'endless' && (
+        <StarMeter levelScore={gameState.levelScore} thresholds={gameState.starThresholds} />
+      )}
+
       {renderObjectiveProgress()}
 
       <Text style={styles.boardSizeText}>
         Board: {boardRows}×{boardCols}
+        {gameState.gravity !== 'down' && ` · Gravity ${GRAVITY_ARROWS[gameState.gravity]}`}
       </Text>
 
+      {comboText && <Text style={styles.comboText}>{comboText}!</Text>}
+
       <View style={styles.boardContainer}>
         {gameState.board.map((row, rowIndex) => (
           <View key={rowIndex} style={styles.row}>
-            {row.map((candy, colIndex) => {
-              if (!candy) return <View key={colIndex} style={{ width: CELL_SIZE, height: CELL_SIZE }} />;
+            {row.map(({ tile, candy }, colIndex) => {
+              // Jelly sits on the tile, under whatever candy is on top
+              const tileStyle = [
+                styles.tile,
+                { width: CELL_SIZE, height: CELL_SIZE },
+                tile.jelly === 1 && styles.jellySingle,
+                tile.jelly >= 2 && styles.jellyDouble,
+                tile.exit && styles.exitTile,
+                tile.spawner && styles.spawnerTile,
+                tile.portal && styles.portalEntrance,
+                portalExits.has(`${rowIndex}-${colIndex}`) && styles.portalExit,
+              ];
+              if (tile.hole) {
+                return <View key={colIndex} style={[styles.holeTile, { width: CELL_SIZE, height: CELL_SIZE }]} />;
+              }
+              if (tile.chocolate) {
+                return <View key={colIndex} style={[tileStyle, styles.chocolateTile]} accessibilityLabel="chocolate" />;
+              }
+              if (tile.stone) {
+                return <View key={colIndex} style={[tileStyle, styles.stoneTile]} accessibilityLabel="stone" />;
+              }
+              if ((tile.ice ?? 0) > 0) {
+                return (
+                  <View key={colIndex} style={[tileStyle, styles.iceTile]} accessibilityLabel={`ice, ${tile.ice} hits left`}>
+                    {(tile.ice ?? 0) > 1 && <Text style={styles.iceHits}>{tile.ice}</Text>}
+                  </View>
+                );
+              }
+              if (!candy) return <View key={colIndex} style={tileStyle} />;
               
               const isSelected =
                 gameState.selectedCandy?.row === rowIndex &&
                 gameState.selectedCandy?.col === colIndex;
+              const isHinted = !!hintMove && [hintMove.from, hintMove.to].some(
+                position => position.row === rowIndex && position.col === colIndex
+              );
 
               return (
-                <CandyPiece
-                  key={candy.id}
-                  candy={candy}
-                  size={CELL_SIZE}
-                  isSelected={isSelected}
-                  onPress={() => handleCandyPress(rowIndex, colIndex)}
-                />
+                <View key={colIndex} style={tileStyle}>
+                  <CandyPiece
+                    key={candy.id}
+                    candy={candy}
+                    size={CELL_SIZE}
+                    isSelected={isSelected}
+                    isHinted={isHinted}
+                    isLocked={tile.locked}
+                    gravity={gameState.gravity}
+                    onPress={() => handleCandyPress(rowIndex, colIndex)}
+                    onSwipe={tile.locked ? undefined : direction => handleCandySwipe(rowIndex, colIndex, direction)}
+                  />
+                </View>
               );
             })}
           </View>
         ))}
       </View>
 
-      <TouchableOpacity style={styles.resetButton} onPress={resetGame}>
-        <Text style={styles.resetButtonText}>New Game</Text>
-      </TouchableOpacity>
+      <View style={styles.boosterBar}>
+        {boosterTypes.map(type => {
+          const count = progress.boosters[type];
+          const isUsable =
+            type !== 'extra_moves' && count > 0 && !gameState.isProcessing && gameState.status === 'playing';
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.booster,
+                targetingBooster === type && styles.boosterActive,
+                !isUsable && styles.buttonDisabled,
+              ]}
+              onPress={() => handleBoosterPress(type)}
+              disabled={!isUsable}
+              accessibilityLabel={`${BOOSTER_NAMES[type]}, ${count} left`}
+            >
+              <Text style={styles.boosterIcon}>{BOOSTER_ICONS[type]}</Text>
+              <Text style={styles.boosterCount}>{count}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {targetingBooster && (
+        <Text style={styles.boosterHint}>
+          {targetingBooster === 'hammer' ? 'Tap a candy to smash it' : 'Swap any two neighbouring candies'}
+        </Text>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.hintButton, hintsLeft <= 0 && styles.buttonDisabled]}
+          onPress={handleHintPress}
+          disabled={hintsLeft <= 0}
+          accessibilityLabel={`${BOOSTER_NAMES.hint}, ${hintsLeft} left`}
+        >
+          <Text style={styles.resetButtonText}>{BOOSTER_ICONS.hint} {hintsLeft}</Text>
+        </TouchableOpacity>
+        {gameState.mode !== 'blitz' && (
+          <TouchableOpacity
+            style={[styles.undoButton, !canUndo && styles.buttonDisabled]}
+            onPress={handleUndoPress}
+            disabled={!canUndo}
+            accessibilityLabel={`Undo, ${gameState.undosLeft} left`}
+          >
+            <Text style={styles.resetButtonText}>↶ {gameState.undosLeft}</Text>
+          </TouchableOpacity>
+        )}
+        {gameState.mode === 'endless' ? (
+          <TouchableOpacity style={styles.resetButton} onPress={handleQuitPress}>
+            <Text style={styles.resetButtonText}>End Session</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.resetButton} onPress={resetGame}>
+            <Text style={styles.resetButtonText}>New Game</Text>
+          </TouchableOpacity>
+        )}
+      </View>
     </ScrollView>
   );
 };
@@ -595,6 +1118,14 @@ const styles = StyleSheet.create({
   lowMoves: {
     color: '#E74C3C',
   },
+  timeBonus: {
+    position: 'absolute',
+    top: 4,
+    right: 8,
+    fontSize: 12,
+    fontWeight: '800',
+    color: '#2ECC71',
+  },
   objectiveContainer: {
     width: '90%',
     backgroundColor: '#1a1a1a',
@@ -674,6 +1205,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  supplyEmpty: {
+    color: '#888888',
+  },
+  chocolateGrowing: {
+    color: '#E74C3C',
+  },
+  ingredientIcon: {
+    fontSize: 18,
+    marginRight: 6,
+  },
   colorTargetComplete: {
     color: '#2ECC71',
     textDecorationLine: 'line-through',
@@ -689,6 +1230,15 @@ const styles = StyleSheet.create({
     color: '#888888',
     marginBottom: 8,
   },
+  comboText: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#F1C40F',
+    marginBottom: 8,
+    textShadowColor: 'rgba(241, 196, 15, 0.5)',
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 8,
+  },
   boardContainer: {
     backgroundColor: '#1a1a1a',
     padding: 8,
@@ -711,8 +1261,118 @@ const styles = StyleSheet.create({
   row: {
     flexDirection: 'row',
   },
-  resetButton: {
+  tile: {
+    borderRadius: 8,
+  },
+  jellySingle: {
+    backgroundColor: 'rgba(255, 105, 180, 0.3)',
+  },
+  jellyDouble: {
+    backgroundColor: 'rgba(255, 105, 180, 0.6)',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 182, 217, 0.8)',
+  },
+  exitTile: {
+    borderBottomWidth: 3,
+    borderBottomColor: '#2ECC71',
+  },
+  iceTile: {
+    backgroundColor: 'rgba(174, 214, 241, 0.7)',
+    borderWidth: 2,
+    borderColor: '#D6EAF8',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iceHits: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1B4F72',
+  },
+  spawnerTile: {
+    borderTopWidth: 3,
+    borderTopColor: '#4169E1',
+  },
+  portalEntrance: {
+    borderBottomWidth: 3,
+    borderBottomColor: '#9B59B6',
+  },
+  portalExit: {
+    borderTopWidth: 3,
+    borderTopColor: '#9B59B6',
+  },
+  holeTile: {
+    backgroundColor: '#000000',
+  },
+  chocolateTile: {
+    backgroundColor: '#6F4E37',
+    borderWidth: 2,
+    borderColor: '#4B3621',
+  },
+  stoneTile: {
+    backgroundColor: '#5D6D7E',
+    borderWidth: 2,
+    borderColor: '#34495E',
+  },
+  boosterBar: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  booster: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#1a1a1a',
+    borderWidth: 2,
+    borderColor: '#1a1a1a',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+  },
+  boosterActive: {
+    borderColor: '#F1C40F',
+  },
+  boosterIcon: {
+    fontSize: 18,
+  },
+  boosterCount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  boosterHint: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#F1C40F',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
     marginTop: 20,
+  },
+  hintButton: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 2,
+    borderColor: '#F1C40F',
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    borderRadius: 25,
+  },
+  undoButton: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 2,
+    borderColor: '#4169E1',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  resetButton: {
     backgroundColor: '#4169E1',
     paddingVertical: 14,
     paddingHorizontal: 40,
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { GameState } from '@/types/game';
+import { clearGameSnapshot, loadGameSnapshot } from '@/utils/savedGame';
+
+interface ResumePromptProps {
+  onResume: (state: GameState) => void;
+  onStartFresh: () => void;
+}
+
+// Offers to resume a level saved when the app was backgrounded.
+// Calls onStartFresh straight away when there is nothing to resume.
+export const ResumePrompt: React.FC<ResumePromptProps> = ({ onResume, onStartFresh }) => {
+  const [savedState, setSavedState] = useState<GameState | null>(null);
+
+  useEffect(() => {
+    loadGameSnapshot().then(snapshot => {
+      if (snapshot) {
+        setSavedState(snapshot);
+      } else {
+        onStartFresh();
+      }
+    });
+  }, [onStartFresh]);
+
+  if (!savedState) {
+    return null;
+  }
+
+  const handleStartFresh = () => {
+    clearGameSnapshot();
+    onStartFresh();
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Resume level {savedState.level}?</Text>
+      <Text style={styles.details}>
+        Score {savedState.score} · {savedState.moves} moves left
+      </Text>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleStartFresh}>
+          <Text style={styles.buttonText}>Start Over</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => onResume(savedState)}>
+          <Text style={styles.buttonText}>Resume</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: '90%',
+    backgroundColor: '#1a1a1a',
+    padding: 20,
+    borderRadius: 12,
+    marginTop: 20,
+    alignItems: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.3)',
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  details: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888888',
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#4169E1',
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    borderRadius: 25,
+  },
+  secondaryButton: {
+    backgroundColor: '#0a0a0a',
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    borderRadius: 25,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
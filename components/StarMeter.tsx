@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { StarThresholds } from '@/types/game';
+
+interface StarMeterProps {
+  levelScore: number;
+  thresholds: StarThresholds;
+}
+
+// Level score progress towards three stars, with a marker at each star threshold
+export const StarMeter: React.FC<StarMeterProps> = ({ levelScore, thresholds }) => {
+  const maxScore = thresholds[thresholds.length - 1];
+  const fill = Math.min(levelScore / maxScore, 1);
+
+  return (
+    <View
+      style={styles.container}
+      accessible
+      accessibilityLabel={`${thresholds.filter(threshold => levelScore >= threshold).length} of 3 stars reached`}
+    >
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${fill * 100}%` }]} />
+      </View>
+      {thresholds.map((threshold, index) => {
+        const reached = levelScore >= threshold;
+        return (
+          <Text
+            key={index}
+            style={[
+              styles.star,
+              { left: `${(threshold / maxScore) * 100}%` },
+              reached && styles.starReached,
+            ]}
+          >
+            ★
+          </Text>
+        );
+      })}
+    </View>
+  );
+};
+
+const STAR_SIZE = 18;
+
+const styles = StyleSheet.create({
+  container: {
+    width: '90%',
+    height: STAR_SIZE + 4,
+    justifyContent: 'center',
+    marginBottom: 12,
+    paddingRight: STAR_SIZE / 2,
+  },
+  track: {
+    height: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#F1C40F',
+    borderRadius: 4,
+  },
+  star: {
+    position: 'absolute',
+    width: STAR_SIZE,
+    marginLeft: -STAR_SIZE / 2,
+    textAlign: 'center',
+    fontSize: STAR_SIZE,
+    lineHeight: STAR_SIZE + 2,
+    color: '#333333',
+  },
+  starReached: {
+    color: '#F1C40F',
+  },
+});
@@ -0,0 +1,107 @@
+import * as React from "react";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { BoosterType } from "@/types/game";
+import {
+  BlitzScore,
+  DailyResult,
+  LevelResult,
+  PlayerProgress,
+  createDefaultProgress,
+  loadProgress,
+  recordBlitzScore,
+  recordBoosterUsed,
+  recordDailyResult,
+  recordEndlessScore,
+  recordLevelComplete,
+  recordLevelStarted,
+  recordScore,
+  saveProgress,
+} from "@/utils/progress";
+
+type ProgressContextType = {
+  progress: PlayerProgress;
+  isLoaded: boolean;
+  startLevel: (level: number) => void;
+  completeLevel: (result: LevelResult) => void;
+  updateBestScore: (totalScore: number) => void;
+  addBlitzScore: (entry: BlitzScore) => void;
+  updateEndlessBest: (score: number) => void;
+  addDailyResult: (result: DailyResult) => void;
+  spendBooster: (type: BoosterType) => void;
+};
+
+const ProgressContext = createContext<ProgressContextType | null>(null);
+
+export function ProgressProvider({ children }: { children: React.ReactNode }) {
+  const [progress, setProgress] = useState<PlayerProgress>(createDefaultProgress);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadProgress().then(saved => {
+      console.log("Loaded progress:", saved);
+      setProgress(saved);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Persist every change once the saved progress has been read
+  useEffect(() => {
+    if (isLoaded) {
+      saveProgress(progress);
+    }
+  }, [progress, isLoaded]);
+
+  const startLevel = useCallback((level: number) => {
+    setProgress(prev => recordLevelStarted(prev, level));
+  }, []);
+
+  const completeLevel = useCallback((result: LevelResult) => {
+    setProgress(prev => recordLevelComplete(prev, result));
+  }, []);
+
+  const updateBestScore = useCallback((totalScore: number) => {
+    setProgress(prev => recordScore(prev, totalScore));
+  }, []);
+
+  const addBlitzScore = useCallback((entry: BlitzScore) => {
+    setProgress(prev => recordBlitzScore(prev, entry));
+  }, []);
+
+  const updateEndlessBest = useCallback((score: number) => {
+    setProgress(prev => recordEndlessScore(prev, score));
+  }, []);
+
+  const addDailyResult = useCallback((result: DailyResult) => {
+    setProgress(prev => recordDailyResult(prev, result));
+  }, []);
+
+  const spendBooster = useCallback((type: BoosterType) => {
+    setProgress(prev => recordBoosterUsed(prev, type));
+  }, []);
+
+  return (
+    <ProgressContext.Provider
+      value={{
+        progress,
+        isLoaded,
+        startLevel,
+        completeLevel,
+        updateBestScore,
+        addBlitzScore,
+        updateEndlessBest,
+        addDailyResult,
+        spendBooster,
+      }}
+    >
+      {children}
+    </ProgressContext.Provider>
+  );
+}
+
+export const useProgress = () => {
+  const context = useContext(ProgressContext);
+  if (!context) {
+    throw new Error("useProgress must be used within a ProgressProvider");
+  }
+  return context;
+};
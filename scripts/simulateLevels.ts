@@ -0,0 +1,260 @@
+// Headless level simulator for difficulty balancing.
+// Plays levels with a bot over many seeds through the real game engine and
+// reports win rate, moves left, cascades, score spread and stars per level range.
+//
+// Usage: npm run simulate -- --from 1 --to 100 --seeds 20 --strategy greedy --range 10 --format csv
+
+import { GameState, Position } from '@/types/game';
+import { createLevelState, gameReducer, getObjectiveProgress } from '@/utils/gameEngine';
+import { findValidMoves, getStarRating } from '@/utils/gameLogic';
+import { Rng, createRng, hashSeed, randomInt } from '@/utils/random';
+
+type Strategy = 'random' | 'greedy' | 'lookahead';
+
+interface SimulationOptions {
+  from: number;
+  to: number;
+  seeds: number;
+  strategy: Strategy;
+  range: number;
+  format: 'json' | 'csv';
+  // Turn limit per level as a guard against bots that never finish
+  maxTurns: number;
+}
+
+interface RunResult {
+  level: number;
+  won: boolean;
+  movesLeft: number;
+  score: number;
+  cascades: number;
+  turns: number;
+  // 0 when the level was failed
+  stars: number;
+}
+
+interface RangeReport {
+  levels: string;
+  runs: number;
+  winRate: number;
+  avgMovesLeft: number;
+  avgCascadesPerMove: number;
+  scoreMin: number;
+  scoreP25: number;
+  scoreMedian: number;
+  scoreP75: number;
+  scoreMax: number;
+  // Share of runs earning at least that many stars
+  oneStarRate: number;
+  twoStarRate: number;
+  threeStarRate: number;
+}
+
+interface Move {
+  from: Position;
+  to: Position;
+}
+
+// How many greedy candidates the lookahead bot expands
+const LOOKAHEAD_WIDTH = 5;
+
+const USAGE = `Usage: npm run simulate -- [options]
+  --from <level>       first level to play (default 1)
+  --to <level>         last level to play (default 10)
+  --seeds <count>      runs per level (default 10)
+  --strategy <name>    random, greedy or lookahead (default greedy)
+  --range <levels>     levels per report row (default 10)
+  --format <format>    json or csv (default json)
+  --maxTurns <count>   turn limit per run (default 500)`;
+
+const parseArgs = (argv: string[]): SimulationOptions => {
+  const options: SimulationOptions = {
+    from: 1,
+    to: 10,
+    seeds: 10,
+    strategy: 'greedy',
+    range: 10,
+    format: 'json',
+    maxTurns: 500,
+  };
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    switch (key) {
+      case 'from':
+      case 'to':
+      case 'seeds':
+      case 'range':
+      case 'maxTurns':
+        options[key] = Number(value);
+        if (!Number.isInteger(options[key]) || options[key] < 1) {
+          throw new Error(`--${key} must be a positive whole number, got "${value ?? ''}"`);
+        }
+        break;
+      case 'strategy':
+        if (value !== 'random' && value !== 'greedy' && value !== 'lookahead') {
+          throw new Error(`Unknown strategy "${value}" (expected random, greedy or lookahead)`);
+        }
+        options.strategy = value;
+        break;
+      case 'format':
+        if (value !== 'json' && value !== 'csv') {
+          throw new Error(`Unknown format "${value}" (expected json or csv)`);
+        }
+        options.format = value;
+        break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+
+  if (options.from > options.to) {
+    throw new Error(`--from ${options.from} is after --to ${options.to}`);
+  }
+
+  return options;
+};
+
+// Every adjacent swap the engine accepts as a move
+const getValidMoves = (state: GameState): Move[] => {
+  return findValidMoves(state.board).map(({ from, to }) => ({ from, to }));
+};
+
+// Value of a position for the bots: objective progress dominates, score breaks ties
+const evaluate = (state: GameState): number => {
+  if (state.status === 'levelComplete') return Number.MAX_SAFE_INTEGER;
+  return getObjectiveProgress(state).current * 1000 + state.score;
+};
+
+const rankMoves = (state: GameState, moves: Move[]): { move: Move; value: number }[] => {
+  return moves
+    .map(move => ({ move, value: evaluate(gameReducer(state, { type: 'swap', ...move }).state) }))
+    .sort((a, b) => b.value - a.value);
+};
+
+const chooseMove = (state: GameState, strategy: Strategy, rng: Rng): Move | null => {
+  const moves = getValidMoves(state);
+  if (moves.length === 0) return null;
+
+  switch (strategy) {
+    case 'random':
+      return moves[randomInt(rng, moves.length)];
+    case 'greedy':
+      return rankMoves(state, moves)[0].move;
+    case 'lookahead': {
+      // Expand the best few greedy moves one turn deeper
+      let best = { move: moves[0], value: -1 };
+      rankMoves(state, moves).slice(0, LOOKAHEAD_WIDTH).forEach(({ move, value }) => {
+        const next = gameReducer(state, { type: 'swap', ...move }).state;
+        let followUp = value;
+        if (next.status === 'playing') {
+          const nextMoves = getValidMoves(next);
+          if (nextMoves.length > 0) {
+            followUp = rankMoves(next, nextMoves)[0].value;
+          }
+        }
+        if (followUp > best.value) {
+          best = { move, value: followUp };
+        }
+      });
+      return best.move;
+    }
+  }
+};
+
+const playLevel = (level: number, seedIndex: number, options: SimulationOptions): RunResult => {
+  let state = createLevelState(level, 0, hashSeed(`simulate-${level}-${seedIndex}`));
+  const botRng = createRng(hashSeed(`bot-${level}-${seedIndex}`));
+  let cascades = 0;
+  let turns = 0;
+
+  while (state.status === 'playing' && turns < options.maxTurns) {
+    const move = chooseMove(state, options.strategy, botRng);
+    if (!move) break;
+    const result = gameReducer(state, { type: 'swap', ...move });
+    // Every wave of matches after the first is a cascade
+    const waves = result.events.filter(event => event.type === 'match').length;
+    cascades += Math.max(0, waves - 1);
+    state = result.state;
+    turns++;
+  }
+
+  const won = state.status === 'levelComplete';
+  return {
+    level,
+    won,
+    movesLeft: state.moves,
+    score: state.score,
+    cascades,
+    turns,
+    stars: won ? getStarRating(state.levelScore, state.starThresholds) : 0,
+  };
+};
+
+const percentile = (sorted: number[], fraction: number): number => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+const summarize = (firstLevel: number, lastLevel: number, runs: RunResult[]): RangeReport => {
+  const wins = runs.filter(run => run.won);
+  const turns = runs.reduce((sum, run) => sum + run.turns, 0);
+  const scores = runs.map(run => run.score).sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const starRate = (stars: number) => round(runs.filter(run => run.stars >= stars).length / runs.length);
+
+  return {
+    levels: `${firstLevel}-${lastLevel}`,
+    runs: runs.length,
+    winRate: round(wins.length / runs.length),
+    avgMovesLeft: round(wins.length > 0 ? wins.reduce((sum, run) => sum + run.movesLeft, 0) / wins.length : 0),
+    avgCascadesPerMove: round(turns > 0 ? runs.reduce((sum, run) => sum + run.cascades, 0) / turns : 0),
+    scoreMin: scores[0] ?? 0,
+    scoreP25: percentile(scores, 0.25),
+    scoreMedian: percentile(scores, 0.5),
+    scoreP75: percentile(scores, 0.75),
+    scoreMax: scores[scores.length - 1] ?? 0,
+    oneStarRate: starRate(1),
+    twoStarRate: starRate(2),
+    threeStarRate: starRate(3),
+  };
+};
+
+const toCsv = (reports: RangeReport[]): string => {
+  const columns = Object.keys(reports[0] ?? {}) as (keyof RangeReport)[];
+  const lines = reports.map(report => columns.map(column => report[column]).join(','));
+  return [columns.join(','), ...lines].join('\n');
+};
+
+const main = () => {
+  let options: SimulationOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+    process.exit(1);
+  }
+
+  // The engine logs every step; keep stdout for the report
+  console.log = () => {};
+
+  const reports: RangeReport[] = [];
+  for (let start = options.from; start <= options.to; start += options.range) {
+    const end = Math.min(options.to, start + options.range - 1);
+    const runs: RunResult[] = [];
+    for (let level = start; level <= end; level++) {
+      for (let seedIndex = 0; seedIndex < options.seeds; seedIndex++) {
+        runs.push(playLevel(level, seedIndex, options));
+      }
+    }
+    reports.push(summarize(start, end, runs));
+    process.stderr.write(`Simulated levels ${start}-${end}\n`);
+  }
+
+  process.stdout.write(
+    options.format === 'csv' ? `${toCsv(reports)}\n` : `${JSON.stringify({ options, reports }, null, 2)}\n`
+  );
+};
+
+main();
@@ -1,6 +1,13 @@
 
 export type CandyType = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange';
 
+// striped_horizontal clears its row, striped_vertical its column,
+// wrapped the surrounding 3x3 area and color_bomb every candy of its color
+export type SpecialCandyType = 'striped_horizontal' | 'striped_vertical' | 'wrapped' | 'color_bomb';
+
+// Ingredients fall like candies but never match; they leave the board through exit tiles
+export type CandyKind = 'candy' | 'ingredient';
+
 export interface Candy {
   id: string;
   type: CandyType;
@@ -8,14 +15,96 @@ export interface Candy {
   col: number;
   isMatched: boolean;
   isFalling: boolean;
+  special?: SpecialCandyType;
+  // Absent for regular candies. An ingredient's type is never matched on.
+  kind?: CandyKind;
+}
+
+// What a board cell holds underneath its candy
+export interface Tile {
+  // Jelly layers left on the tile: 0 none, 1 single, 2 double
+  jelly: number;
+  // Ingredients that land on an exit are collected
+  exit?: boolean;
+  // Adjacent matches left before the ice breaks; an iced cell holds no candy
+  ice?: number;
+  // Stone never breaks and never holds a candy
+  stone?: boolean;
+  // The candy is caged: it can't be swapped or fall until a match frees it
+  locked?: boolean;
+  // The cell isn't part of the board: it never holds anything and candies fall past it
+  hole?: boolean;
+  // Candies falling out of this cell come out at the portal's other end instead
+  portal?: Position;
+  // New candies drop in here. Once any tile is a spawner, only spawners drop candies in.
+  spawner?: boolean;
+  // Chocolate fills the cell like stone, but an adjacent match eats it and it
+  // spreads after any turn that destroys none
+  chocolate?: boolean;
+}
+
+export type BlockerType = 'chocolate' | 'ice' | 'lock' | 'stone';
+
+// A blocker placed on a cell at the start of a level
+export interface Blocker {
+  type: BlockerType;
+  row: number;
+  col: number;
+  // Adjacent matches ice takes to break
+  hits?: number;
+}
+
+export interface Cell {
+  tile: Tile;
+  candy: Candy | null;
 }
 
+export type Board = Cell[][];
+
 export interface Position {
   row: number;
   col: number;
 }
 
-export type ObjectiveType = 'clear_board' | 'collect_colors';
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+// Candies falling out of `from` continue at `to`
+export interface Portal {
+  from: Position;
+  to: Position;
+}
+
+export type MatchShape = 'line3' | 'line4' | 'line5' | 'L' | 'T';
+
+// One individual match: a straight run, or crossing runs of the same color
+export interface MatchGroup {
+  cells: Position[];
+  color: CandyType;
+  orientation: 'horizontal' | 'vertical' | 'both';
+  shape: MatchShape;
+  // Cell a special candy spawns on - the swapped cell when it is part of the match
+  anchor: Position;
+}
+
+// A valid swap with what it is expected to achieve, used to rank hints
+export interface MoveCandidate {
+  from: Position;
+  to: Position;
+  matchSize: number;
+  specials: SpecialCandyType[];
+  // Matched candies of colors the objective still needs
+  objectiveCandies: number;
+  value: number;
+}
+
+export type ObjectiveType =
+  | 'clear_board'
+  | 'clear_chocolate'
+  | 'clear_jelly'
+  | 'collect_colors'
+  | 'drop_ingredients'
+  | 'high_score'
+  | 'reach_score';
 
 export interface LevelObjective {
   type: ObjectiveType;
@@ -24,24 +113,130 @@ export interface LevelObjective {
   targetColors?: {
     [key in CandyType]?: number;
   };
+  // For clear_board objective: candies each column drops in before it runs dry
+  columnSupply?: number;
+  // For clear_board objective: candies to clear, out of the board plus the supply
+  candiesToClear?: number;
+  // For reach_score objective: level score to reach
+  targetScore?: number;
+  // For clear_jelly objective: jelly layers per cell at the start of the level
+  jelly?: number[][];
+  // For drop_ingredients objective: ingredients to bring down to the exits
+  ingredients?: number;
+  // For clear_chocolate objective: chocolate cells at the start of the level
+  chocolate?: number;
 }
 
+// What a board is built on besides its candies
+export interface BoardLayout {
+  jelly?: number[][];
+  blockers?: Blocker[];
+  mask?: boolean[][];
+  portals?: Portal[];
+  spawners?: Position[];
+}
+
+// Level scores needed for one, two and three stars
+export type StarThresholds = [number, number, number];
+
 export interface LevelConfig {
   level: number;
   moves: number;
   boardSize: { rows: number; cols: number };
   objective: LevelObjective;
+  starThresholds: StarThresholds;
+  blockers: Blocker[];
+  // Cells that exist on a shaped board; absent for a full rectangle
+  mask?: boolean[][];
+  // Direction candies fall in
+  gravity: Direction;
+  portals: Portal[];
+  // Cells new candies drop in at; absent when every fall path has its own
+  spawners?: Position[];
+  // Seconds on the clock for a timed level; moves are unlimited then
+  timeLimit?: number;
+  // Seed for the level's RNG - same seed and moves always give the same boards
+  seed: number;
 }
 
+// levels is the level progression; blitz plays one board against the clock,
+// endless plays on with no limit while the difficulty rises with the score and
+// daily is the same level for every player on a given day
+export type GameMode = 'levels' | 'blitz' | 'endless' | 'daily';
+
+// hammer smashes one candy, free_swap swaps two candies without needing a match,
+// shuffle rearranges the candies on the board, extra_moves continues a failed level
+// and hint shows the best move without waiting for the idle hint
+export type BoosterType = 'hammer' | 'free_swap' | 'shuffle' | 'extra_moves' | 'hint';
+
+// outOfMoves: the move limit ran out; noMatches: a limited supply left candies that can't be matched
+export type LevelFailedReason = 'outOfMoves' | 'noMatches';
+
+export type GameStatus = 'playing' | 'levelComplete' | 'levelFailed' | 'timeUp';
+
 export interface GameState {
-  board: (Candy | null)[][];
+  mode: GameMode;
+  board: Board;
+  // Running score across levels, and the part earned on the current level
   score: number;
+  levelScore: number;
   moves: number;
+  // Seconds left on the clock, null when the level has a move limit instead
+  timeLeft: number | null;
+  // Valid moves made so far
+  movesPlayed: number;
   level: number;
   selectedCandy: Position | null;
   isProcessing: boolean;
+  status: GameStatus;
   objective: LevelObjective;
+  starThresholds: StarThresholds;
+  gravity: Direction;
+  // Candies left to drop into each column, null when refills are unlimited
+  columnSupply: number[] | null;
   collectedColors: {
     [key in CandyType]: number;
   };
+  ingredientsCollected: number;
+  seed: number;
+  // Current RNG state, advanced by every refill and reshuffle
+  rngState: number;
+  undosLeft: number;
+  // States before the most recent valid moves, latest last. Snapshots hold no history of their own.
+  history: GameState[];
+}
+
+export type GameAction =
+  | { type: 'startLevel'; level: number; score: number; seed: number }
+  | { type: 'startBlitz'; seed: number }
+  | { type: 'startEndless'; seed: number }
+  | { type: 'startDaily'; date: string }
+  | { type: 'tick'; seconds: number }
+  | { type: 'undo' }
+  | { type: 'hammer'; position: Position }
+  | { type: 'freeSwap'; from: Position; to: Position }
+  | { type: 'shuffle' }
+  | { type: 'extraMoves' }
+  | { type: 'swap'; from: Position; to: Position };
+
+// Emitted by the engine in order so the UI can animate each step.
+// Board snapshots show the board at that moment of the turn.
+export type GameEvent =
+  | { type: 'swap'; from: Position; to: Position; valid: boolean; board: Board }
+  | { type: 'specialSwap'; name: string; board: Board }
+  | { type: 'match'; groups: MatchGroup[]; cleared: Position[]; detonated: number; points: number; board: Board }
+  | { type: 'fall'; board: Board }
+  | { type: 'refill'; board: Board }
+  | { type: 'shuffle'; board: Board }
+  | { type: 'chocolateSpread'; from: Position; to: Position; board: Board }
+  | { type: 'levelComplete'; level: number; score: number; movesBonus: number; stars: number }
+  | { type: 'booster'; booster: BoosterType }
+  | { type: 'timeBonus'; seconds: number }
+  | { type: 'levelUp'; level: number; board: Board }
+  | { type: 'levelFailed'; level: number; score: number; reason: LevelFailedReason }
+  | { type: 'timeUp'; score: number };
+
+export interface EngineResult {
+  state: GameState;
+  events: GameEvent[];
 }
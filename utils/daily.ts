@@ -0,0 +1,24 @@
+// Calendar days for the daily challenge, as local YYYY-MM-DD keys.
+// Keys come from the device clock alone, so the challenge works offline.
+
+export const getDateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getPreviousDateKey = (key: string): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() - 1);
+  return getDateKey(date);
+};
+
+// Short label such as "Oct 19"
+export const formatDateKey = (key: string): string => {
+  return parseDateKey(key).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,691 @@
+// Pure turn engine: (state, action) => { state, events }.
+// No React, timers or platform APIs, so gameplay can be run headless and tested
+// without rendering. The UI replays the returned events to animate the turn.
+
+import {
+  Board,
+  Candy,
+  CandyType,
+  Direction,
+  EngineResult,
+  GameAction,
+  GameEvent,
+  GameMode,
+  GameState,
+  LevelConfig,
+  MatchGroup,
+  MoveCandidate,
+  Position,
+} from '@/types/game';
+import {
+  addExits,
+  areAdjacent,
+  calculateMatchPoints,
+  calculateMovesBonus,
+  calculateTimeBonus,
+  cloneBoard,
+  collapseBoard,
+  countChocolate,
+  countIngredients,
+  createIngredient,
+  createInitialBoard,
+  expandDetonations,
+  findCollectableIngredients,
+  findMatches,
+  findMatchGroups,
+  findValidMoves,
+  getBlitzLevelConfig,
+  getBoardSize,
+  getClearBoardCandyCount,
+  getDailyLevelConfig,
+  getEndlessLevel,
+  getEndlessLevelConfig,
+  getLevelConfig,
+  getMatchedPositions,
+  getSpecialCandySpawns,
+  getStarRating,
+  getSpawnCells,
+  hasValidMoves,
+  isIngredient,
+  isSwappable,
+  MAX_INGREDIENTS_ON_BOARD,
+  randomizeBoard,
+  refillBoard,
+  refillBoardFromSupply,
+  removeMatches,
+  resolveSpecialSwap,
+  setCandy,
+  shuffleBoard,
+  SpecialSwapResult,
+  spreadChocolate,
+  swapCandies,
+} from '@/utils/gameLogic';
+import { createRng, randomInt, Rng } from '@/utils/random';
+
+// Safety net against endless cascades
+const MAX_CASCADES = 20;
+
+// Moves a player can take back on each level
+const UNDOS_PER_LEVEL = 3;
+
+// Moves the extra moves booster adds to a failed level
+export const EXTRA_MOVES = 5;
+
+const emptyCollectedColors = (): { [key in CandyType]: number } => ({
+  red: 0,
+  blue: 0,
+  green: 0,
+  yellow: 0,
+  purple: 0,
+  orange: 0,
+});
+
+// Build a fresh state for a level; the board and every later refill come from the seed
+export const createLevelState = (level: number, score: number, seed: number): GameState => {
+  return createStateFromConfig(getLevelConfig(level, seed), score, 'levels');
+};
+
+// A fresh blitz round with a full clock
+export const createBlitzState = (seed: number): GameState => {
+  return createStateFromConfig(getBlitzLevelConfig(seed), 0, 'blitz');
+};
+
+export const createEndlessState = (seed: number): GameState => {
+  return createStateFromConfig(getEndlessLevelConfig(seed), 0, 'endless');
+};
+
+// The challenge for a YYYY-MM-DD day, identical on every device
+export const createDailyState = (date: string): GameState => {
+  return createStateFromConfig(getDailyLevelConfig(date), 0, 'daily');
+};
+
+const createStateFromConfig = (levelConfig: LevelConfig, score: number, mode: GameMode): GameState => {
+  const { level } = levelConfig;
+  const rng = createRng(levelConfig.seed);
+  let board = createInitialBoard(
+    levelConfig.boardSize.rows,
+    levelConfig.boardSize.cols,
+    level,
+    rng,
+    {
+      jelly: levelConfig.objective.jelly,
+      blockers: levelConfig.blockers,
+      mask: levelConfig.mask,
+      portals: levelConfig.portals,
+      spawners: levelConfig.spawners,
+    }
+  );
+  if (levelConfig.objective.type === 'drop_ingredients') {
+    board = placeStartingIngredients(
+      addExits(board, levelConfig.gravity),
+      levelConfig.objective.ingredients ?? 0,
+      levelConfig.gravity,
+      rng
+    );
+  }
+  // Never start a level the player can't make a move on
+  if (!hasValidMoves(board)) {
+    board = randomizeBoard(board, level, rng);
+  }
+  return {
+    mode,
+    board,
+    score,
+    levelScore: 0,
+    moves: levelConfig.moves,
+    timeLeft: levelConfig.timeLimit ?? null,
+    movesPlayed: 0,
+    level,
+    selectedCandy: null,
+    isProcessing: false,
+    status: 'playing',
+    objective: levelConfig.objective,
+    starThresholds: levelConfig.starThresholds,
+    gravity: levelConfig.gravity,
+    columnSupply: levelConfig.objective.type === 'clear_board'
+      ? Array(levelConfig.boardSize.cols).fill(levelConfig.objective.columnSupply ?? 0)
+      : null,
+    collectedColors: emptyCollectedColors(),
+    ingredientsCollected: 0,
+    seed: levelConfig.seed,
+    rngState: rng.state,
+    // Taking moves back would stop the clock from mattering
+    undosLeft: mode === 'blitz' ? 0 : UNDOS_PER_LEVEL,
+    history: [],
+  };
+};
+
+// The first ingredients replace the candies on randomly picked spawn cells
+const placeStartingIngredients = (board: Board, total: number, gravity: Direction, rng: Rng): Board => {
+  const newBoard = cloneBoard(board);
+  const cells = getSpawnCells(board, gravity).filter(({ row, col }) => board[row][col].candy);
+  for (let placed = 0; placed < Math.min(total, MAX_INGREDIENTS_ON_BOARD) && cells.length > 0; placed++) {
+    const { row, col } = cells.splice(randomInt(rng, cells.length), 1)[0];
+    setCandy(newBoard, row, col, createIngredient(row, col));
+  }
+  return newBoard;
+};
+
+// Ingredients to drop in with the next refill: more come while the objective still
+// needs them, but never more than MAX_INGREDIENTS_ON_BOARD at a time
+const getIngredientsToSpawn = (board: Board, ingredientsLeft: number): number => {
+  const onBoard = countIngredients(board);
+  return Math.max(0, Math.min(ingredientsLeft - onBoard, MAX_INGREDIENTS_ON_BOARD - onBoard));
+};
+
+export const isLevelComplete = (state: GameState): boolean => {
+  const { objective, collectedColors } = state;
+
+  if (objective.type === 'clear_board') {
+    const { current, target } = getObjectiveProgress(state);
+    return current >= target;
+  }
+
+  if (objective.type === 'reach_score') {
+    return state.levelScore >= (objective.targetScore ?? 0);
+  }
+
+  if (objective.type === 'clear_jelly') {
+    return countJelly(state.board) === 0;
+  }
+
+  if (objective.type === 'drop_ingredients') {
+    return state.ingredientsCollected >= (objective.ingredients ?? 0);
+  }
+
+  if (objective.type === 'clear_chocolate') {
+    return countChocolate(state.board) === 0;
+  }
+
+  if (objective.type === 'high_score') {
+    // Only the clock ends a round played for score
+    return false;
+  }
+
+  if (objective.type === 'collect_colors' && objective.targetColors) {
+    // Check if all color targets are met
+    return Object.entries(objective.targetColors).every(
+      ([color, target]) => collectedColors[color as CandyType] >= target
+    );
+  }
+
+  return false;
+};
+
+// Jelly layers left on the board
+export const countJelly = (board: Board): number => {
+  return board.reduce((sum, row) => sum + row.reduce((rowSum, cell) => rowSum + cell.tile.jelly, 0), 0);
+};
+
+// Progress towards the objective in objective units (candies or jelly layers cleared, or points)
+export const getObjectiveProgress = (state: GameState): { current: number; target: number } => {
+  const { objective } = state;
+
+  if (objective.type === 'clear_board') {
+    const candyCount = getClearBoardCandyCount(
+      { rows: state.board.length, cols: state.board[0]?.length ?? 0 },
+      objective
+    );
+    // Games saved before the target existed still need every candy cleared
+    const target = objective.candiesToClear ?? candyCount;
+    const onBoard = state.board.reduce((sum, row) => sum + row.filter(cell => cell.candy !== null).length, 0);
+    const inSupply = (state.columnSupply ?? []).reduce((sum, count) => sum + count, 0);
+    return { current: Math.min(candyCount - onBoard - inSupply, target), target };
+  }
+
+  if (objective.type === 'reach_score') {
+    const target = objective.targetScore ?? 0;
+    return { current: Math.min(state.levelScore, target), target };
+  }
+
+  if (objective.type === 'clear_jelly') {
+    const target = (objective.jelly ?? []).reduce(
+      (sum, row) => sum + row.reduce((rowSum, layers) => rowSum + layers, 0),
+      0
+    );
+    return { current: target - countJelly(state.board), target };
+  }
+
+  if (objective.type === 'drop_ingredients') {
+    const target = objective.ingredients ?? 0;
+    return { current: Math.min(state.ingredientsCollected, target), target };
+  }
+
+  if (objective.type === 'clear_chocolate') {
+    // Chocolate can grow past where it started, which counts as no progress
+    const target = objective.chocolate ?? 0;
+    return { current: Math.max(0, target - countChocolate(state.board)), target };
+  }
+
+  let current = 0;
+  let target = 0;
+  Object.entries(objective.targetColors ?? {}).forEach(([color, amount]) => {
+    current += Math.min(state.collectedColors[color as CandyType], amount);
+    target += amount;
+  });
+  return { current, target };
+};
+
+// Best move to suggest, favouring colors the objective still needs
+export const getHint = (state: GameState): MoveCandidate | null => {
+  const neededColors = Object.entries(state.objective.targetColors ?? {})
+    .filter(([color, target]) => state.collectedColors[color as CandyType] < target)
+    .map(([color]) => color as CandyType);
+  return findValidMoves(state.board, neededColors)[0] ?? null;
+};
+
+interface CascadeResult {
+  board: Board;
+  supply: number[] | null;
+  events: GameEvent[];
+  points: number;
+  // Candies cleared by the player's own move; cascades don't count toward objectives
+  collected: Candy[];
+  // Ingredients that left through an exit, on any wave
+  ingredientsCollected: number;
+}
+
+// Clear matches, drop and refill until the board settles. Once nothing matches,
+// ingredients on an exit are collected and the board drops and refills again.
+// The first wave is the special swap itself when there is one.
+const resolveCascade = (
+  board: Board,
+  level: number,
+  rng: Rng,
+  anchors: Position[],
+  specialSwap: SpecialSwapResult | null,
+  supply: number[] | null,
+  ingredientsLeft: number,
+  gravity: Direction
+): CascadeResult => {
+  let currentBoard = board;
+  let currentSupply = supply;
+  const events: GameEvent[] = [];
+  let points = 0;
+  let collected: Candy[] = [];
+  let ingredientsCollected = 0;
+
+  for (let wave = 1; wave <= MAX_CASCADES; wave++) {
+    let groups: MatchGroup[] = [];
+    let cleared: Position[];
+    let detonated: number;
+    let spawns: Candy[] = [];
+
+    if (wave === 1 && specialSwap) {
+      currentBoard = specialSwap.board;
+      cleared = specialSwap.cleared;
+      detonated = specialSwap.detonated;
+    } else {
+      // Specials spawn where the player swapped on the first wave, mid-run on cascades
+      groups = findMatchGroups(currentBoard, wave === 1 ? anchors : []);
+      if (groups.length > 0) {
+        spawns = getSpecialCandySpawns(groups);
+        ({ positions: cleared, detonated } = expandDetonations(currentBoard, getMatchedPositions(groups)));
+      } else {
+        cleared = findCollectableIngredients(currentBoard);
+        if (cleared.length === 0) break;
+        console.log(`Collected ${cleared.length} ingredients`);
+        ingredientsCollected += cleared.length;
+        detonated = 0;
+      }
+    }
+
+    if (wave === 1) {
+      // A caged candy is only freed and stays on the board, so it isn't collected
+      const waveBoard = currentBoard;
+      collected = cleared
+        .filter(({ row, col }) => !waveBoard[row][col].tile.locked)
+        .map(({ row, col }) => waveBoard[row][col].candy)
+        .filter((candy): candy is Candy => candy !== null);
+    }
+
+    const wavePoints = calculateMatchPoints(cleared.length, detonated, level);
+    points += wavePoints;
+
+    // Mark candies as matched for the breaking animation
+    const matchedBoard = cloneBoard(currentBoard);
+    cleared.forEach(({ row, col }) => {
+      const candy = matchedBoard[row][col].candy;
+      if (candy) {
+        setCandy(matchedBoard, row, col, { ...candy, isMatched: true });
+      }
+    });
+    events.push({ type: 'match', groups, cleared, detonated, points: wavePoints, board: matchedBoard });
+
+    currentBoard = removeMatches(matchedBoard, cleared);
+    spawns.forEach(candy => {
+      setCandy(currentBoard, candy.row, candy.col, candy);
+    });
+
+    currentBoard = collapseBoard(currentBoard, gravity);
+    events.push({ type: 'fall', board: currentBoard });
+
+    if (currentSupply) {
+      ({ board: currentBoard, supply: currentSupply } = refillBoardFromSupply(currentBoard, level, rng, currentSupply));
+    } else {
+      const ingredients = getIngredientsToSpawn(currentBoard, ingredientsLeft - ingredientsCollected);
+      currentBoard = refillBoard(currentBoard, level, rng, gravity, ingredients);
+    }
+    events.push({ type: 'refill', board: currentBoard });
+  }
+
+  return { board: currentBoard, supply: currentSupply, events, points, collected, ingredientsCollected };
+};
+
+// Levels and the daily challenge count moves down; blitz and endless play on regardless
+const hasMoveLimit = (state: GameState): boolean => state.mode === 'levels' || state.mode === 'daily';
+
+// Endless play gets harder as the score climbs: higher levels bring more colors, and a
+// new board tier brings a fresh, bigger board
+const raiseEndlessLevel = (state: GameState, events: GameEvent[], rng: Rng): GameState => {
+  const level = getEndlessLevel(state.score);
+  if (level <= state.level) {
+    return state;
+  }
+
+  let board = state.board;
+  const { rows, cols } = getBoardSize(level);
+  if (rows !== board.length || cols !== board[0].length) {
+    console.log(`Endless board grows to ${rows}x${cols}`);
+    board = createInitialBoard(rows, cols, level, rng);
+    if (!hasValidMoves(board)) {
+      board = randomizeBoard(board, level, rng);
+    }
+  }
+  console.log(`Endless level ${level}`);
+  events.push({ type: 'levelUp', level, board });
+  return { ...state, level, board };
+};
+
+// End of turn: level complete, out of moves, or reshuffle a board with no moves left
+const settleTurn = (state: GameState, events: GameEvent[], rng: Rng): EngineResult => {
+  if (isLevelComplete(state)) {
+    // Unused moves are cashed in before the stars are counted
+    const movesBonus = calculateMovesBonus(state.moves, state.level);
+    const score = state.score + movesBonus;
+    const levelScore = state.levelScore + movesBonus;
+    const stars = getStarRating(levelScore, state.starThresholds);
+    console.log(`Level complete! All targets met with ${stars} stars.`);
+    events.push({ type: 'levelComplete', level: state.level, score, movesBonus, stars });
+    return { state: { ...state, score, levelScore, status: 'levelComplete', rngState: rng.state }, events };
+  }
+
+  if (hasMoveLimit(state) && state.moves <= 0) {
+    console.log('Game over - no moves left');
+    events.push({ type: 'levelFailed', level: state.level, score: state.score, reason: 'outOfMoves' });
+    return { state: { ...state, status: 'levelFailed', rngState: rng.state }, events };
+  }
+
+  if (hasValidMoves(state.board)) {
+    return { state: { ...state, rngState: rng.state }, events };
+  }
+
+  if (state.columnSupply) {
+    // A limited supply can't be topped up, so only rearrange what is left
+    const board = shuffleBoard(state.board, rng);
+    if (board) {
+      events.push({ type: 'shuffle', board });
+      return { state: { ...state, board, rngState: rng.state }, events };
+    }
+
+    // Nothing left can be matched, so the target can't be reached anymore
+    console.log('Remaining candies can no longer be cleared');
+    events.push({ type: 'levelFailed', level: state.level, score: state.score, reason: 'noMatches' });
+    return { state: { ...state, status: 'levelFailed', rngState: rng.state }, events };
+  }
+
+  console.log('No valid moves found! Randomizing board...');
+  const board = randomizeBoard(state.board, state.level, rng);
+  events.push({ type: 'shuffle', board });
+  return { state: { ...state, board, rngState: rng.state }, events };
+};
+
+const handleSwap = (state: GameState, from: Position, to: Position): EngineResult => {
+  if (
+    state.status !== 'playing' ||
+    (hasMoveLimit(state) && state.moves <= 0) ||
+    !areAdjacent(from, to) ||
+    !isSwappable(state.board, from) ||
+    !isSwappable(state.board, to)
+  ) {
+    console.log('Swap ignored - level over, candies not adjacent, or cell empty, blocked or locked');
+    return { state, events: [] };
+  }
+
+  const swapped = swapCandies(state.board, from, to);
+  const specialSwap = resolveSpecialSwap(swapped, from, to);
+
+  if (!specialSwap && findMatches(swapped).length === 0) {
+    console.log('Invalid move - no matches, swapping back');
+    return {
+      state: { ...state, selectedCandy: null },
+      events: [{ type: 'swap', from, to, valid: false, board: swapped }],
+    };
+  }
+
+  const events: GameEvent[] = [{ type: 'swap', from, to, valid: true, board: swapped }];
+  if (specialSwap) {
+    events.push({ type: 'specialSwap', name: specialSwap.name, board: specialSwap.board });
+  }
+
+  return resolveTurn(state, swapped, [from, to], specialSwap, events, true);
+};
+
+// Cascade a move or a booster through to the end of the turn. Boosters are free: they
+// don't cost a move, earn blitz time or let chocolate grow, and can't be undone.
+// firstWave clears its cells before anything else is matched.
+const resolveTurn = (
+  state: GameState,
+  board: Board,
+  anchors: Position[],
+  firstWave: SpecialSwapResult | null,
+  events: GameEvent[],
+  isMove: boolean
+): EngineResult => {
+  const rng = createRng(state.rngState);
+  const cascade = resolveCascade(
+    board,
+    state.level,
+    rng,
+    anchors,
+    firstWave,
+    state.columnSupply,
+    (state.objective.ingredients ?? 0) - state.ingredientsCollected,
+    state.gravity
+  );
+  events.push(...cascade.events);
+
+  // End of turn: chocolate the move didn't eat into grows
+  let settledBoard = cascade.board;
+  const chocolateBefore = countChocolate(state.board);
+  if (isMove && chocolateBefore > 0 && countChocolate(settledBoard) >= chocolateBefore) {
+    const spread = spreadChocolate(settledBoard, rng);
+    if (spread) {
+      settledBoard = spread.board;
+      events.push({ type: 'chocolateSpread', from: spread.from, to: spread.to, board: settledBoard });
+    }
+  }
+
+  // Ingredients carry a candy color but only count towards drop_ingredients
+  const collectedColors = { ...state.collectedColors };
+  cascade.collected
+    .filter(candy => !isIngredient(candy))
+    .forEach(candy => {
+      collectedColors[candy.type]++;
+    });
+
+  // Against the clock, big matches and cascades buy more time instead of costing a move
+  let { moves, timeLeft } = state;
+  if (isMove && hasMoveLimit(state)) {
+    moves--;
+  } else if (isMove && timeLeft !== null) {
+    const waveSizes = cascade.events.flatMap(event => (event.type === 'match' ? [event.cleared.length] : []));
+    const bonus = calculateTimeBonus(waveSizes);
+    if (bonus > 0) {
+      console.log(`Time bonus: +${bonus}s`);
+      timeLeft += bonus;
+      events.push({ type: 'timeBonus', seconds: bonus });
+    }
+  }
+
+  const nextState: GameState = {
+    ...state,
+    history: isMove ? pushHistory(state) : [],
+    board: settledBoard,
+    score: state.score + cascade.points,
+    levelScore: state.levelScore + cascade.points,
+    moves,
+    timeLeft,
+    movesPlayed: state.movesPlayed + (isMove ? 1 : 0),
+    columnSupply: cascade.supply,
+    selectedCandy: null,
+    collectedColors,
+    ingredientsCollected: state.ingredientsCollected + cascade.ingredientsCollected,
+  };
+
+  return settleTurn(
+    state.mode === 'endless' ? raiseEndlessLevel(nextState, events, rng) : nextState,
+    events,
+    rng
+  );
+};
+
+// Smash one candy, setting it off if it is special. A caged candy is freed instead
+const handleHammer = (state: GameState, position: Position): EngineResult => {
+  const candy = state.board[position.row]?.[position.col]?.candy;
+  if (state.status !== 'playing' || !candy || isIngredient(candy)) {
+    console.log('Hammer ignored - level over, or no candy to smash');
+    return { state, events: [] };
+  }
+
+  const { positions: cleared, detonated } = expandDetonations(state.board, [position]);
+  const hammered: SpecialSwapResult = { name: 'Hammer', board: state.board, cleared, detonated };
+  return resolveTurn(state, state.board, [], hammered, [{ type: 'booster', booster: 'hammer' }], false);
+};
+
+// Swap two neighbours whether or not it makes a match
+const handleFreeSwap = (state: GameState, from: Position, to: Position): EngineResult => {
+  if (
+    state.status !== 'playing' ||
+    !areAdjacent(from, to) ||
+    !isSwappable(state.board, from) ||
+    !isSwappable(state.board, to)
+  ) {
+    console.log('Free swap ignored - level over, candies not adjacent, or cell empty, blocked or locked');
+    return { state, events: [] };
+  }
+
+  const swapped = swapCandies(state.board, from, to);
+  const specialSwap = resolveSpecialSwap(swapped, from, to);
+  const events: GameEvent[] = [
+    { type: 'booster', booster: 'free_swap' },
+    { type: 'swap', from, to, valid: true, board: swapped },
+  ];
+  if (specialSwap) {
+    events.push({ type: 'specialSwap', name: specialSwap.name, board: specialSwap.board });
+  }
+  // A swap without a match can still move an ingredient onto an exit; resolveTurn
+  // counts it towards drop_ingredients only, never towards the collected colors
+  return resolveTurn(state, swapped, [from, to], specialSwap, events, false);
+};
+
+// Rearrange the candies already on the board; locked candies stay put
+const handleShuffle = (state: GameState): EngineResult => {
+  const rng = createRng(state.rngState);
+  const board = state.status === 'playing' ? shuffleBoard(state.board, rng) : null;
+  if (!board) {
+    console.log('Shuffle ignored - level over, or no layout without matches');
+    return { state, events: [] };
+  }
+
+  return {
+    state: { ...state, board, selectedCandy: null, history: [], rngState: rng.state },
+    events: [{ type: 'booster', booster: 'shuffle' }, { type: 'shuffle', board }],
+  };
+};
+
+// Carry on a level that ran out of moves
+const handleExtraMoves = (state: GameState): EngineResult => {
+  if (state.status !== 'levelFailed' || !hasMoveLimit(state) || state.moves > 0) {
+    console.log('Extra moves ignored - the level did not run out of moves');
+    return { state, events: [] };
+  }
+
+  console.log(`Continuing with ${EXTRA_MOVES} extra moves`);
+  return {
+    state: { ...state, status: 'playing', moves: EXTRA_MOVES },
+    events: [{ type: 'booster', booster: 'extra_moves' }],
+  };
+};
+
+// Remember the state before a move, keeping only as many as can still be undone
+const pushHistory = (state: GameState): GameState[] => {
+  if (state.undosLeft <= 0) {
+    return [];
+  }
+  const snapshot: GameState = { ...state, selectedCandy: null, isProcessing: false, history: [] };
+  return [...state.history, snapshot].slice(-state.undosLeft);
+};
+
+// Go back to before the last valid move. The snapshot carries the RNG state, so
+// playing the same move again refills exactly as it did the first time.
+const handleUndo = (state: GameState): EngineResult => {
+  const previous = state.history[state.history.length - 1];
+  if (state.status !== 'playing' || !previous || state.undosLeft <= 0) {
+    console.log('Undo ignored - level over, nothing to undo or no undos left');
+    return { state, events: [] };
+  }
+
+  console.log(`Undoing move ${state.movesPlayed}, ${state.undosLeft - 1} undos left`);
+  return {
+    state: { ...previous, history: state.history.slice(0, -1), undosLeft: state.undosLeft - 1 },
+    events: [],
+  };
+};
+
+// Run the clock down; the round ends when it reaches zero
+const handleTick = (state: GameState, seconds: number): EngineResult => {
+  if (state.status !== 'playing' || state.timeLeft === null) {
+    return { state, events: [] };
+  }
+
+  const timeLeft = Math.max(0, state.timeLeft - seconds);
+  if (timeLeft > 0) {
+    return { state: { ...state, timeLeft }, events: [] };
+  }
+
+  console.log(`Time up with ${state.score} points`);
+  return {
+    state: { ...state, timeLeft, status: 'timeUp', selectedCandy: null },
+    events: [{ type: 'timeUp', score: state.score }],
+  };
+};
+
+export const gameReducer = (state: GameState, action: GameAction): EngineResult => {
+  switch (action.type) {
+    case 'startLevel':
+      return { state: createLevelState(action.level, action.score, action.seed), events: [] };
+    case 'startBlitz':
+      return { state: createBlitzState(action.seed), events: [] };
+    case 'startEndless':
+      return { state: createEndlessState(action.seed), events: [] };
+    case 'startDaily':
+      return { state: createDailyState(action.date), events: [] };
+    case 'swap':
+      return handleSwap(state, action.from, action.to);
+    case 'tick':
+      return handleTick(state, action.seconds);
+    case 'undo':
+      return handleUndo(state);
+    case 'hammer':
+      return handleHammer(state, action.position);
+    case 'freeSwap':
+      return handleFreeSwap(state, action.from, action.to);
+    case 'shuffle':
+      return handleShuffle(state);
+    case 'extraMoves':
+      return handleExtraMoves(state);
+    default:
+      return { state, events: [] };
+  }
+};
@@ -1,8 +1,125 @@
 
-import { Candy, CandyType, Position, LevelConfig, LevelObjective } from '@/types/game';
+import {
+  Blocker,
+  BlockerType,
+  Board,
+  BoardLayout,
+  Candy,
+  CandyType,
+  Cell,
+  Direction,
+  Position,
+  LevelConfig,
+  LevelObjective,
+  SpecialCandyType,
+  StarThresholds,
+  MatchGroup,
+  MatchShape,
+  MoveCandidate,
+  Portal,
+  Tile,
+} from '@/types/game';
+import { Rng, createRng, randomInt, generateSeed, hashSeed } from '@/utils/random';
 
 const CANDY_TYPES: CandyType[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
 
+// Base points per cleared candy and bonus per special candy detonation (both scaled by level)
+const POINTS_PER_CANDY = 10;
+const POINTS_PER_DETONATION = 50;
+// Bonus per move left when a level is completed (scaled by level)
+const POINTS_PER_MOVE_LEFT = 60;
+
+// Every CLEAR_BOARD_INTERVAL levels from CLEAR_BOARD_FIRST_LEVEL is a clear-board level
+const CLEAR_BOARD_FIRST_LEVEL = 6;
+const CLEAR_BOARD_INTERVAL = 8;
+// Candies a move is expected to clear, which sets a clear-board level's move budget
+const CLEAR_BOARD_CANDIES_PER_MOVE = 4;
+// Share of a clear-board level's candies to clear; the last few often can't be matched
+const CLEAR_BOARD_TARGET_SHARE = 0.9;
+
+// Every REACH_SCORE_INTERVAL levels from REACH_SCORE_FIRST_LEVEL is a score-target level
+const REACH_SCORE_FIRST_LEVEL = 3;
+const REACH_SCORE_INTERVAL = 8;
+// Target as a share of the score the level's moves are expected to make
+const REACH_SCORE_TARGET_SHARE = 0.6;
+
+// Every JELLY_INTERVAL levels from JELLY_FIRST_LEVEL is a jelly level
+const JELLY_FIRST_LEVEL = 16;
+const JELLY_INTERVAL = 8;
+// From this level the inner part of a jelly pattern has two layers
+const DOUBLE_JELLY_LEVEL = 60;
+const JELLY_MOVES_PER_LAYER = 1.2;
+
+// Blockers show up on every other level from here on, taking turns: ice, locks, stone
+const BLOCKER_FIRST_LEVEL = 20;
+const BLOCKER_TYPES: BlockerType[] = ['ice', 'lock', 'stone'];
+// From here ice takes two adjacent matches to break
+const THICK_ICE_LEVEL = 80;
+
+// Shaped boards need room to play, so they wait for 7x7 boards
+const SHAPE_FIRST_LEVEL = 61;
+const SHAPE_INTERVAL = 3;
+
+// Gravity levels cycle through the other three directions
+const GRAVITY_FIRST_LEVEL = 127;
+const GRAVITY_INTERVAL = 10;
+const GRAVITY_DIRECTIONS: Direction[] = ['up', 'left', 'right'];
+const PORTAL_FIRST_LEVEL = 155;
+const PORTAL_INTERVAL = 10;
+// Scoring on boards with sideways, upward or portal falls, relative to plain ones
+const TWISTED_FALL_SCORE_SHARE = 0.8;
+
+// Chocolate levels start once blockers are familiar
+const CHOCOLATE_FIRST_LEVEL = 25;
+const CHOCOLATE_INTERVAL = 8;
+const CHOCOLATE_ROW_LEVELS = 400;
+const MAX_CHOCOLATE_ROWS = 3;
+const CHOCOLATE_MOVES_PER_CELL = 3;
+
+// Ingredient levels sit between the other special objectives
+const INGREDIENT_FIRST_LEVEL = 13;
+const INGREDIENT_INTERVAL = 8;
+const MAX_INGREDIENTS = 5;
+// Ingredients on the board at once; the rest drop in as earlier ones are collected
+export const MAX_INGREDIENTS_ON_BOARD = 2;
+
+// Blitz plays one board against the clock, with the colors and points of an early level
+const BLITZ_LEVEL = 10;
+const BLITZ_BOARD_SIZE = { rows: 8, cols: 8 };
+export const BLITZ_SECONDS = 60;
+// Pace of a practised player, used to size the star thresholds like a move budget
+const BLITZ_SECONDS_PER_MOVE = 2;
+// Time bonuses: clearing this many candies in one wave, and every cascade wave past
+// the first few. Small cascades are too common on a big board to be worth time.
+const BLITZ_BIG_MATCH_SIZE = 5;
+const BLITZ_BIG_MATCH_SECONDS = 1;
+const BLITZ_FREE_CASCADES = 2;
+const BLITZ_CASCADE_SECONDS = 1;
+
+// Endless difficulty: points per match grow with the level, so the level follows the
+// square root of the score. Reaching level L takes ENDLESS_SCORE_STEP * (L - 1)^2 points.
+const ENDLESS_SCORE_STEP = 250;
+
+// The daily challenge is one of these levels, so it has a mid-sized board and any objective
+const DAILY_MIN_LEVEL = 20;
+const DAILY_MAX_LEVEL = 200;
+
+// How many layouts shuffleBoard tries before giving up
+const SHUFFLE_ATTEMPTS = 50;
+
+// Star threshold tuning: a typical move clears about this many candies and bigger boards
+// cascade more, while objectives that tie up many moves leave less room for big combos.
+// Thresholds are fractions of the score such a player would end on.
+const STAR_CANDIES_PER_MOVE = 6;
+const STAR_CASCADE_CELLS = 40;
+const STAR_OBJECTIVE_PRESSURE = 0.25;
+const STAR_FACTORS = [0.4, 0.65, 0.85];
+// Clear-board and score-target stars: share of the move budget that has to be left over
+const SPARE_MOVE_STAR_SHARES = [0, 0.2, 0.4];
+
+// Shown for ingredients on the board and in the objective
+export const INGREDIENT_ICON = '🍒';
+
 export const getCandyColor = (type: CandyType): string => {
   const colorMap: Record<CandyType, string> = {
     red: '#E74C3C',
@@ -15,6 +132,9 @@ export const getCandyColor = (type: CandyType): string => {
   return colorMap[type];
 };
 
+// Highest level the game generates
+export const MAX_LEVEL = 1000;
+
 // Calculate board size based on level (1-1000)
 export const getBoardSize = (level: number): { rows: number; cols: number } => {
   // Level 1-10: 4x4
@@ -50,15 +170,115 @@ export const getBoardSize = (level: number): { rows: number; cols: number } => {
 };
 
 // Generate level configuration with objectives
-export const getLevelConfig = (level: number): LevelConfig => {
+export const getLevelConfig = (level: number, seed: number = generateSeed()): LevelConfig => {
   const boardSize = getBoardSize(level);
   const totalCells = boardSize.rows * boardSize.cols;
+  const layout = createBoardLayout(level, boardSize);
+  const { mask } = layout;
+  const scoreShare = getLayoutScoreShare(layout);
   
   // Calculate moves based on board size and level
   const baseMoves = Math.floor(totalCells * 1.5);
   const moves = Math.max(15, baseMoves - Math.floor(level / 10));
   
-  // EVERY level now has a color collection objective
+  if (isClearBoardLevel(level)) {
+    const objective = createClearBoardObjective(boardSize);
+    // Nearly every candy has to go, so moves follow the supply instead of the board area
+    const clearMoves = Math.ceil(getClearBoardCandyCount(boardSize, objective) / CLEAR_BOARD_CANDIES_PER_MOVE);
+    return {
+      level,
+      moves: clearMoves,
+      boardSize,
+      objective,
+      starThresholds: getStarThresholds(level, boardSize, clearMoves, objective),
+      blockers: [],
+      ...layout,
+      seed,
+    };
+  }
+
+  if (isReachScoreLevel(level)) {
+    const targetScore = Math.round(getExpectedScore(level, boardSize, moves, 0, scoreShare) * REACH_SCORE_TARGET_SHARE / 100) * 100;
+    const objective: LevelObjective = {
+      type: 'reach_score',
+      description: `Score ${targetScore} points`,
+      targetScore,
+    };
+    return {
+      level,
+      moves,
+      boardSize,
+      objective,
+      starThresholds: getStarThresholds(level, boardSize, moves, objective, scoreShare),
+      blockers: withoutHoles(createBlockers(level, boardSize, true), mask),
+      ...layout,
+      seed,
+    };
+  }
+
+  if (isJellyLevel(level)) {
+    const jelly = createJellyLayout(level, boardSize, mask);
+    const layers = jelly.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+    const objective: LevelObjective = {
+      type: 'clear_jelly',
+      description: `Clear ${layers} jelly`,
+      jelly,
+    };
+    // A move per layer plus slack for reaching the edges, never more than a normal level
+    const jellyMoves = Math.min(moves, Math.ceil(layers * JELLY_MOVES_PER_LAYER) + boardSize.cols);
+    return {
+      level,
+      moves: jellyMoves,
+      boardSize,
+      objective,
+      starThresholds: getStarThresholds(level, boardSize, jellyMoves, objective, scoreShare),
+      blockers: withoutHoles(createBlockers(level, boardSize, false), mask),
+      ...layout,
+      seed,
+    };
+  }
+
+  if (isIngredientLevel(level)) {
+    const ingredients = getIngredientCount(level);
+    const objective: LevelObjective = {
+      type: 'drop_ingredients',
+      description: `Drop ${ingredients} ingredients`,
+      ingredients,
+    };
+    return {
+      level,
+      moves,
+      boardSize,
+      objective,
+      starThresholds: getStarThresholds(level, boardSize, moves, objective, scoreShare),
+      blockers: withoutHoles(createBlockers(level, boardSize, false), mask),
+      ...layout,
+      seed,
+    };
+  }
+
+  if (isChocolateLevel(level)) {
+    const blockers = withoutHoles(createChocolateLayout(level, boardSize), mask);
+    const objective: LevelObjective = {
+      type: 'clear_chocolate',
+      description: 'Clear all the chocolate',
+      chocolate: blockers.length,
+    };
+    // Like jelly: a move per cell plus slack, never more than a normal level
+    const chocolateMoves = Math.min(moves, Math.ceil(blockers.length * CHOCOLATE_MOVES_PER_CELL) + boardSize.cols);
+    return {
+      level,
+      moves: chocolateMoves,
+      boardSize,
+      objective,
+      starThresholds: getStarThresholds(level, boardSize, chocolateMoves, objective, scoreShare),
+      blockers,
+      ...layout,
+      seed,
+    };
+  }
+
+  // Every other level has a color collection objective
   let objective: LevelObjective;
   
   // Determine number of colors to collect based on level
@@ -99,40 +319,488 @@ export const getLevelConfig = (level: number): LevelConfig => {
     moves,
     boardSize,
     objective,
+    starThresholds: getStarThresholds(level, boardSize, moves, objective, scoreShare),
+    blockers: withoutHoles(createBlockers(level, boardSize, true), mask),
+    ...layout,
+    seed,
+  };
+};
+
+// A blitz board: plain 8x8, no blockers, scored for as long as the clock runs
+export const getBlitzLevelConfig = (seed: number = generateSeed()): LevelConfig => {
+  const objective: LevelObjective = {
+    type: 'high_score',
+    description: `Score as much as you can in ${BLITZ_SECONDS} seconds`,
+  };
+  const expectedMoves = BLITZ_SECONDS / BLITZ_SECONDS_PER_MOVE;
+  return {
+    level: BLITZ_LEVEL,
+    moves: 0,
+    boardSize: BLITZ_BOARD_SIZE,
+    objective,
+    starThresholds: getStarThresholds(BLITZ_LEVEL, BLITZ_BOARD_SIZE, expectedMoves, objective),
+    blockers: [],
+    gravity: 'down',
+    portals: [],
+    timeLimit: BLITZ_SECONDS,
+    seed,
+  };
+};
+
+// The start of an endless session: level 1's board with nothing to complete.
+// The level, and with it the colors and board size, rises as the score climbs.
+export const getEndlessLevelConfig = (seed: number = generateSeed()): LevelConfig => {
+  const boardSize = getBoardSize(1);
+  const objective: LevelObjective = {
+    type: 'high_score',
+    description: 'No limits - the board grows as your score climbs',
+  };
+  return {
+    level: 1,
+    moves: 0,
+    boardSize,
+    objective,
+    starThresholds: getStarThresholds(1, boardSize, 0, objective),
+    blockers: [],
+    gravity: 'down',
+    portals: [],
+    seed,
+  };
+};
+
+export const getEndlessLevel = (score: number): number => {
+  return Math.min(MAX_LEVEL, 1 + Math.floor(Math.sqrt(score / ENDLESS_SCORE_STEP)));
+};
+
+// Score an endless session reaches the level at
+export const getEndlessLevelScore = (level: number): number => {
+  return ENDLESS_SCORE_STEP * (level - 1) ** 2;
+};
+
+// The daily challenge for a YYYY-MM-DD day. Everything derives from the date, so every
+// player gets the same objective, layout and board that day without going online.
+export const getDailyLevelConfig = (dateKey: string): LevelConfig => {
+  const seed = hashSeed(`daily-${dateKey}`);
+  const level = DAILY_MIN_LEVEL + randomInt(createRng(seed), DAILY_MAX_LEVEL - DAILY_MIN_LEVEL + 1);
+  return getLevelConfig(level, seed);
+};
+
+// Clear-board levels come up regularly once the basics are learned
+export const isClearBoardLevel = (level: number): boolean => {
+  return level >= CLEAR_BOARD_FIRST_LEVEL && level % CLEAR_BOARD_INTERVAL === CLEAR_BOARD_FIRST_LEVEL % CLEAR_BOARD_INTERVAL;
+};
+
+export const isReachScoreLevel = (level: number): boolean => {
+  return level >= REACH_SCORE_FIRST_LEVEL && level % REACH_SCORE_INTERVAL === REACH_SCORE_FIRST_LEVEL % REACH_SCORE_INTERVAL;
+};
+
+export const isJellyLevel = (level: number): boolean => {
+  return level >= JELLY_FIRST_LEVEL && level % JELLY_INTERVAL === JELLY_FIRST_LEVEL % JELLY_INTERVAL;
+};
+
+export const isIngredientLevel = (level: number): boolean => {
+  return level >= INGREDIENT_FIRST_LEVEL && level % INGREDIENT_INTERVAL === INGREDIENT_FIRST_LEVEL % INGREDIENT_INTERVAL;
+};
+
+export const isChocolateLevel = (level: number): boolean => {
+  return level >= CHOCOLATE_FIRST_LEVEL && level % CHOCOLATE_INTERVAL === CHOCOLATE_FIRST_LEVEL % CHOCOLATE_INTERVAL;
+};
+
+// Chocolate fills the bottom rows, one more row every CHOCOLATE_ROW_LEVELS levels
+const createChocolateLayout = (level: number, boardSize: { rows: number; cols: number }): Blocker[] => {
+  const chocolateRows = Math.min(1 + Math.floor(level / CHOCOLATE_ROW_LEVELS), MAX_CHOCOLATE_ROWS);
+  const blockers: Blocker[] = [];
+  for (let row = boardSize.rows - chocolateRows; row < boardSize.rows; row++) {
+    for (let col = 0; col < boardSize.cols; col++) {
+      blockers.push({ type: 'chocolate', row, col });
+    }
+  }
+  return blockers;
+};
+
+// One more ingredient every hundred levels
+const getIngredientCount = (level: number): number => {
+  return Math.min(2 + Math.floor(level / 100), MAX_INGREDIENTS);
+};
+
+// Which cells exist on a shaped board, given the distances from the board center
+const BOARD_SHAPES: ((rowOffset: number, colOffset: number, rows: number, cols: number) => boolean)[] = [
+  // Diamond: the corners are cut off
+  (rowOffset, colOffset, rows, cols) => rowOffset + colOffset <= Math.max(rows, cols) / 2 + 0.5,
+  // Hourglass: full rows at the top and bottom, narrowing towards the middle
+  (rowOffset, colOffset) => colOffset <= rowOffset + 1.5,
+  // Donut: a hole in the middle
+  (rowOffset, colOffset) => rowOffset >= 1.5 || colOffset >= 1.5,
+];
+
+// Mask for a shaped level, or undefined for a full rectangle. Portal levels lose their
+// middle row, which the portals bridge. Clear-board levels stay rectangular since
+// their candy count assumes every cell.
+const createBoardMask = (level: number, boardSize: { rows: number; cols: number }): boolean[][] | undefined => {
+  const isShaped = level >= SHAPE_FIRST_LEVEL && level % SHAPE_INTERVAL === 0;
+  if ((!isShaped && !isPortalLevel(level)) || isClearBoardLevel(level)) return undefined;
+
+  const { rows, cols } = boardSize;
+  const shape = isShaped
+    ? BOARD_SHAPES[Math.floor(level / SHAPE_INTERVAL) % BOARD_SHAPES.length]
+    : () => true;
+  const gapRow = isPortalLevel(level) ? Math.floor(rows / 2) : -1;
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) =>
+    row !== gapRow && shape(Math.abs(row - (rows - 1) / 2), Math.abs(col - (cols - 1) / 2), rows, cols)
+  ));
+};
+
+// Candies fall sideways or upwards on some later levels. Clear-board and ingredient
+// levels keep falling down: their supply and exits are laid out for it.
+export const getGravity = (level: number): Direction => {
+  if (
+    level < GRAVITY_FIRST_LEVEL ||
+    level % GRAVITY_INTERVAL !== GRAVITY_FIRST_LEVEL % GRAVITY_INTERVAL ||
+    isClearBoardLevel(level) ||
+    isIngredientLevel(level)
+  ) {
+    return 'down';
+  }
+  return GRAVITY_DIRECTIONS[Math.floor(level / GRAVITY_INTERVAL) % GRAVITY_DIRECTIONS.length];
+};
+
+export const isPortalLevel = (level: number): boolean => {
+  return level >= PORTAL_FIRST_LEVEL &&
+    level % PORTAL_INTERVAL === PORTAL_FIRST_LEVEL % PORTAL_INTERVAL &&
+    !isClearBoardLevel(level);
+};
+
+// Portal levels: each column above the gap drops into the next column below it,
+// and candies only drop in at the top of the board
+const createPortalLayout = (
+  boardSize: { rows: number; cols: number },
+  mask: boolean[][]
+): { portals: Portal[]; spawners: Position[] } => {
+  const { rows, cols } = boardSize;
+  const gapRow = Math.floor(rows / 2);
+  const portals: Portal[] = [];
+  const spawners: Position[] = [];
+  for (let col = 0; col < cols; col++) {
+    const toCol = (col + 1) % cols;
+    let fromRow = gapRow - 1;
+    while (fromRow >= 0 && !mask[fromRow][col]) fromRow--;
+    let toRow = gapRow + 1;
+    while (toRow < rows && !mask[toRow][toCol]) toRow++;
+    if (fromRow >= 0 && toRow < rows) {
+      portals.push({ from: { row: fromRow, col }, to: { row: toRow, col: toCol } });
+    }
+
+    const topRow = mask.findIndex(row => row[col]);
+    if (topRow >= 0 && topRow < gapRow) spawners.push({ row: topRow, col });
+  }
+  return { portals, spawners };
+};
+
+// Share of a plain board's score a layout allows. Holes leave fewer cells to match
+// and candies that don't fall straight down cascade less.
+const getLayoutScoreShare = (layout: Pick<LevelConfig, 'mask' | 'gravity' | 'portals'>): number => {
+  const cells = layout.mask?.flat() ?? [];
+  const cellShare = cells.length > 0 ? cells.filter(Boolean).length / cells.length : 1;
+  const isTwisted = layout.gravity !== 'down' || layout.portals.length > 0;
+  return cellShare * (isTwisted ? TWISTED_FALL_SCORE_SHARE : 1);
+};
+
+// Everything about a level's board apart from its objective and blockers
+const createBoardLayout = (
+  level: number,
+  boardSize: { rows: number; cols: number }
+): Pick<LevelConfig, 'mask' | 'gravity' | 'portals' | 'spawners'> => {
+  const mask = createBoardMask(level, boardSize);
+  const gravity = getGravity(level);
+  if (mask && isPortalLevel(level)) {
+    return { mask, gravity, ...createPortalLayout(boardSize, mask) };
+  }
+  return { mask, gravity, portals: [] };
+};
+
+// Drop blockers that would sit on a hole
+const withoutHoles = (blockers: Blocker[], mask: boolean[][] | undefined): Blocker[] => {
+  return mask ? blockers.filter(({ row, col }) => mask[row][col]) : blockers;
+};
+
+// Which cells of a board carry jelly; each jelly level takes the next pattern in turn
+const JELLY_PATTERNS: ((row: number, col: number, rows: number, cols: number) => boolean)[] = [
+  // Center block
+  (row, col, rows, cols) =>
+    row >= Math.floor(rows / 4) && row < rows - Math.floor(rows / 4) &&
+    col >= Math.floor(cols / 4) && col < cols - Math.floor(cols / 4),
+  // Outer ring
+  (row, col, rows, cols) => row === 0 || col === 0 || row === rows - 1 || col === cols - 1,
+  // Cross through the middle
+  (row, col, rows, cols) =>
+    Math.abs(row - (rows - 1) / 2) < 1 || Math.abs(col - (cols - 1) / 2) < 1,
+  // Checkerboard
+  (row, col) => (row + col) % 2 === 0,
+  // Bottom half
+  (row, _col, rows) => row >= Math.floor(rows / 2),
+];
+
+// Jelly layers per cell for a jelly level. Higher levels get a double layer on the
+// pattern cells away from the board edge.
+const createJellyLayout = (
+  level: number,
+  boardSize: { rows: number; cols: number },
+  mask: boolean[][] | undefined
+): number[][] => {
+  const { rows, cols } = boardSize;
+  const pattern = JELLY_PATTERNS[Math.floor(level / JELLY_INTERVAL) % JELLY_PATTERNS.length];
+  const jelly: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    jelly[row] = [];
+    for (let col = 0; col < cols; col++) {
+      const isInner = row > 0 && col > 0 && row < rows - 1 && col < cols - 1;
+      jelly[row][col] = pattern(row, col, rows, cols) && (!mask || mask[row][col])
+        ? level >= DOUBLE_JELLY_LEVEL && isInner ? 2 : 1
+        : 0;
+    }
+  }
+  return jelly;
+};
+
+// Blockers for a level. Stone never goes away, so it's only used where the objective
+// doesn't need every cell (jelly under it or ingredients stuck above it); ice stands in.
+const createBlockers = (
+  level: number,
+  boardSize: { rows: number; cols: number },
+  allowStone: boolean
+): Blocker[] => {
+  if (level < BLOCKER_FIRST_LEVEL || level % 2 !== 0) return [];
+
+  const { rows, cols } = boardSize;
+  const middleRow = Math.floor(rows / 2);
+  let type = BLOCKER_TYPES[(level / 2) % BLOCKER_TYPES.length];
+  if (type === 'stone' && !allowStone) type = 'ice';
+
+  const blockers: Blocker[] = [];
+  if (type === 'ice') {
+    // Every other cell across the middle row
+    const hits = level >= THICK_ICE_LEVEL ? 2 : 1;
+    for (let col = 1; col < cols - 1; col += 2) {
+      blockers.push({ type, row: middleRow, col, hits });
+    }
+  } else if (type === 'lock') {
+    // Diagonal bands through the middle half of the board
+    for (let row = Math.floor(rows / 4); row < rows - Math.floor(rows / 4); row++) {
+      for (let col = 0; col < cols; col++) {
+        if ((row + col) % 3 === 0) blockers.push({ type, row, col });
+      }
+    }
+  } else {
+    // A stone at each end of the middle row
+    blockers.push({ type, row: middleRow, col: 0 }, { type, row: middleRow, col: cols - 1 });
+  }
+  return blockers;
+};
+
+// Each column holds one board's height of spare candies, so a full refill is all there is
+const createClearBoardObjective = (boardSize: { rows: number; cols: number }): LevelObjective => {
+  const objective: LevelObjective = {
+    type: 'clear_board',
+    description: '',
+    columnSupply: boardSize.rows,
   };
+  const candyCount = getClearBoardCandyCount(boardSize, objective);
+  objective.candiesToClear = Math.floor(candyCount * CLEAR_BOARD_TARGET_SHARE);
+  objective.description = `Clear ${objective.candiesToClear} of ${candyCount} candies`;
+  return objective;
+};
+
+// Candies on the starting board plus everything the columns can still drop in
+export const getClearBoardCandyCount = (
+  boardSize: { rows: number; cols: number },
+  objective: LevelObjective
+): number => {
+  return boardSize.rows * boardSize.cols + boardSize.cols * (objective.columnSupply ?? 0);
+};
+
+// Score a typical player makes using every move of a level, given how many candies the
+// objective needs. Unused moves pay out about what a played move scores, so every move
+// counts once whether it's played or left over.
+const getExpectedScore = (
+  level: number,
+  boardSize: { rows: number; cols: number },
+  moves: number,
+  objectiveCandies: number,
+  scoreShare: number
+): number => {
+  const cascadeFactor = 1 + (boardSize.rows * boardSize.cols) / STAR_CASCADE_CELLS;
+  // Share of the level's matches the objective needs, assuming three candies per match
+  const objectiveShare = Math.min(1, objectiveCandies / (moves * 3));
+  return moves * STAR_CANDIES_PER_MOVE * POINTS_PER_CANDY * level * cascadeFactor *
+    (1 - STAR_OBJECTIVE_PRESSURE * objectiveShare) * scoreShare;
+};
+
+// Star thresholds scale with the expected score of the level.
+// Tuned with `npm run simulate` so the greedy bot earns three stars on some runs of every range.
+export const getStarThresholds = (
+  level: number,
+  boardSize: { rows: number; cols: number },
+  moves: number,
+  objective: LevelObjective,
+  scoreShare: number = 1
+): StarThresholds => {
+  const round = (value: number) => Math.max(100, Math.round(value / 100) * 100);
+
+  // These objectives fix the score a level ends on, so stars come from the moves left over
+  const completionScore =
+    objective.type === 'clear_board' ? getClearBoardCandyCount(boardSize, objective) * POINTS_PER_CANDY * level :
+    objective.type === 'reach_score' ? objective.targetScore ?? 0 :
+    null;
+  if (completionScore !== null) {
+    const spareMovesScore = moves * POINTS_PER_MOVE_LEFT * level;
+    const [one, two, three] = SPARE_MOVE_STAR_SHARES.map(share => round(completionScore + spareMovesScore * share));
+    return [one, two, three];
+  }
+
+  // Every jelly layer and chocolate cell takes a match, so it weighs like three
+  // objective candies, and an ingredient takes about a match for every row it falls
+  const jellyLayers = (objective.jelly ?? []).reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+  const ingredientMatches = (objective.ingredients ?? 0) * boardSize.rows;
+  const objectiveCandies =
+    Object.values(objective.targetColors ?? {}).reduce((sum, target) => sum + target, 0) +
+    (jellyLayers + (objective.chocolate ?? 0) + ingredientMatches) * 3;
+  const expectedScore = getExpectedScore(level, boardSize, moves, objectiveCandies, scoreShare);
+  const [one, two, three] = STAR_FACTORS.map(factor => round(expectedScore * factor));
+  return [one, two, three];
+};
+
+// Stars earned for a level score; completing the level always earns at least one
+export const getStarRating = (levelScore: number, thresholds: StarThresholds): number => {
+  return Math.max(1, thresholds.filter(threshold => levelScore >= threshold).length);
+};
+
+export const calculateMovesBonus = (movesLeft: number, level: number): number => {
+  return movesLeft * POINTS_PER_MOVE_LEFT * level;
 };
 
-export const createCandy = (row: number, col: number, level: number): Candy => {
+// Ids only need to be unique for React keys, so they don't consume the RNG
+let candyIdCounter = 0;
+
+export const createCandy = (row: number, col: number, level: number, rng: Rng): Candy => {
   const availableTypes = CANDY_TYPES.slice(0, Math.min(4 + Math.floor(level / 10), CANDY_TYPES.length));
-  const type = availableTypes[Math.floor(Math.random() * availableTypes.length)];
+  const type = availableTypes[randomInt(rng, availableTypes.length)];
+  candyIdCounter++;
+  return {
+    id: `${row}-${col}-${Date.now()}-${candyIdCounter}`,
+    type,
+    row,
+    col,
+    isMatched: false,
+    isFalling: false,
+  };
+};
+
+export const createSpecialCandy = (
+  row: number,
+  col: number,
+  type: CandyType,
+  special: SpecialCandyType
+): Candy => {
+  candyIdCounter++;
   return {
-    id: `${row}-${col}-${Date.now()}-${Math.random()}`,
+    id: `${row}-${col}-${Date.now()}-${candyIdCounter}`,
     type,
     row,
     col,
     isMatched: false,
     isFalling: false,
+    special,
   };
 };
 
-export const createInitialBoard = (rows: number, cols: number, level: number): (Candy | null)[][] => {
+export const createIngredient = (row: number, col: number): Candy => {
+  candyIdCounter++;
+  return {
+    id: `${row}-${col}-${Date.now()}-${candyIdCounter}`,
+    // Never matched on, ingredients only need a type to be a Candy
+    type: CANDY_TYPES[0],
+    row,
+    col,
+    isMatched: false,
+    isFalling: false,
+    kind: 'ingredient',
+  };
+};
+
+export const isIngredient = (candy: Candy | null | undefined): boolean => {
+  return candy?.kind === 'ingredient';
+};
+
+// Color a candy matches on, or null for empty cells and ingredients
+const getMatchType = (candy: Candy | null | undefined): CandyType | null => {
+  return candy && !isIngredient(candy) ? candy.type : null;
+};
+
+// Tile for a cell of a new board, with whatever the layout places on it
+const createTile = (row: number, col: number, layout: BoardLayout): Tile => {
+  const { jelly, blockers = [], mask, portals = [], spawners = [] } = layout;
+  if (mask && !mask[row]?.[col]) return { jelly: 0, hole: true };
+  const tile: Tile = { jelly: jelly?.[row]?.[col] ?? 0 };
+  const portal = portals.find(({ from }) => from.row === row && from.col === col);
+  if (portal) tile.portal = portal.to;
+  if (spawners.some(spawner => spawner.row === row && spawner.col === col)) tile.spawner = true;
+  const blocker = blockers.find(b => b.row === row && b.col === col);
+  if (blocker?.type === 'ice') tile.ice = blocker.hits ?? 1;
+  if (blocker?.type === 'stone') tile.stone = true;
+  if (blocker?.type === 'lock') tile.locked = true;
+  if (blocker?.type === 'chocolate') tile.chocolate = true;
+  return tile;
+};
+
+// Ice, stone and chocolate take up the cell: no candy sits there and none falls through.
+// Holes never hold a candy either, but candies fall past them.
+export const isBlocked = (tile: Tile): boolean => {
+  return !!tile.hole || !!tile.stone || !!tile.chocolate || (tile.ice ?? 0) > 0;
+};
+
+// Candies stay put on blocked and locked cells
+const isFixed = (cell: Cell): boolean => {
+  return (isBlocked(cell.tile) && !cell.tile.hole) || !!cell.tile.locked;
+};
+
+// Only free candies can be swapped; empty, blocked and locked cells can't
+export const isSwappable = (board: Board, position: Position): boolean => {
+  const cell = board[position.row]?.[position.col];
+  return !!cell && cell.candy !== null && !isFixed(cell);
+};
+
+// Jelly layers, blockers, holes, portals and spawners come from the level layout;
+// other cells start bare
+export const createInitialBoard = (
+  rows: number,
+  cols: number,
+  level: number,
+  rng: Rng,
+  layout: BoardLayout = {}
+): Board => {
   console.log(`Creating initial board: ${rows}x${cols}, level ${level}`);
-  const board: (Candy | null)[][] = [];
+  const board: Board = [];
   for (let row = 0; row < rows; row++) {
     board[row] = [];
     for (let col = 0; col < cols; col++) {
-      let candy = createCandy(row, col, level);
+      const tile = createTile(row, col, layout);
+      if (isBlocked(tile)) {
+        board[row][col] = { tile, candy: null };
+        continue;
+      }
+
+      let candy = createCandy(row, col, level, rng);
       
       // Ensure no initial matches
       let attempts = 0;
       while (attempts < 10) {
         const hasMatch = checkWouldCreateMatch(board, candy, row, col);
         if (!hasMatch) break;
-        candy = createCandy(row, col, level);
+        candy = createCandy(row, col, level, rng);
         attempts++;
       }
       
-      board[row][col] = candy;
+      board[row][col] = { tile, candy };
     }
   }
   console.log('Initial board created successfully');
@@ -140,7 +808,7 @@ export const createInitialBoard = (rows: number, cols: number, level: number): (
 };
 
 const checkWouldCreateMatch = (
-  board: (Candy | null)[][],
+  board: Board,
   candy: Candy,
   row: number,
   col: number
@@ -150,14 +818,14 @@ const checkWouldCreateMatch = (
   
   // Check left
   let checkCol = col - 1;
-  while (checkCol >= 0 && board[row][checkCol]?.type === candy.type) {
+  while (checkCol >= 0 && getMatchType(board[row][checkCol]?.candy) === candy.type) {
     horizontalCount++;
     checkCol--;
   }
   
   // Check right
   checkCol = col + 1;
-  while (checkCol < board[row].length && board[row][checkCol]?.type === candy.type) {
+  while (checkCol < board[row].length && getMatchType(board[row][checkCol]?.candy) === candy.type) {
     horizontalCount++;
     checkCol++;
   }
@@ -169,14 +837,14 @@ const checkWouldCreateMatch = (
   
   // Check up
   let checkRow = row - 1;
-  while (checkRow >= 0 && board[checkRow][col]?.type === candy.type) {
+  while (checkRow >= 0 && getMatchType(board[checkRow]?.[col]?.candy) === candy.type) {
     verticalCount++;
     checkRow--;
   }
   
   // Check down
   checkRow = row + 1;
-  while (checkRow < board.length && board[checkRow][col]?.type === candy.type) {
+  while (checkRow < board.length && getMatchType(board[checkRow]?.[col]?.candy) === candy.type) {
     verticalCount++;
     checkRow++;
   }
@@ -186,93 +854,203 @@ const checkWouldCreateMatch = (
   return false;
 };
 
+// One step in each gravity direction
+const GRAVITY_STEPS: Record<Direction, Position> = {
+  up: { row: -1, col: 0 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 },
+};
+
+// Cells directly above, below, left and right of a position that are on the board
+const getNeighbors = (board: Board, position: Position): Position[] => {
+  return [[-1, 0], [1, 0], [0, -1], [0, 1]]
+    .map(([dRow, dCol]) => ({ row: position.row + dRow, col: position.col + dCol }))
+    .filter(({ row, col }) => board[row]?.[col] !== undefined);
+};
+
 export const areAdjacent = (pos1: Position, pos2: Position): boolean => {
   const rowDiff = Math.abs(pos1.row - pos2.row);
   const colDiff = Math.abs(pos1.col - pos2.col);
   return (rowDiff === 1 && colDiff === 0) || (rowDiff === 0 && colDiff === 1);
 };
 
+// Copy a board so cells can be replaced without touching the original
+export const cloneBoard = (board: Board): Board => board.map(row => [...row]);
+
+// Replace the candy in a cell of a board copy, keeping the tile underneath
+export const setCandy = (board: Board, row: number, col: number, candy: Candy | null) => {
+  board[row][col] = { ...board[row][col], candy };
+};
+
+// Swap the candies of two cells; tiles stay where they are.
+// Blocked and locked cells can't take part, so the board comes back unchanged.
 export const swapCandies = (
-  board: (Candy | null)[][],
+  board: Board,
   pos1: Position,
   pos2: Position
-): (Candy | null)[][] => {
+): Board => {
+  if (isFixed(board[pos1.row][pos1.col]) || isFixed(board[pos2.row][pos2.col])) {
+    console.log(`Swap rejected - (${pos1.row},${pos1.col}) or (${pos2.row},${pos2.col}) is blocked or locked`);
+    return board;
+  }
   console.log(`Swapping candies at (${pos1.row},${pos1.col}) and (${pos2.row},${pos2.col})`);
-  const newBoard = board.map(row => [...row]);
-  const temp = newBoard[pos1.row][pos1.col];
-  newBoard[pos1.row][pos1.col] = newBoard[pos2.row][pos2.col];
-  newBoard[pos2.row][pos2.col] = temp;
+  const newBoard = cloneBoard(board);
+  const candy1 = board[pos1.row][pos1.col].candy;
+  const candy2 = board[pos2.row][pos2.col].candy;
   
-  // Update positions
-  if (newBoard[pos1.row][pos1.col]) {
-    newBoard[pos1.row][pos1.col]!.row = pos1.row;
-    newBoard[pos1.row][pos1.col]!.col = pos1.col;
-  }
-  if (newBoard[pos2.row][pos2.col]) {
-    newBoard[pos2.row][pos2.col]!.row = pos2.row;
-    newBoard[pos2.row][pos2.col]!.col = pos2.col;
-  }
+  // Copy the moved candies so the previous board stays untouched
+  setCandy(newBoard, pos1.row, pos1.col, candy2 ? { ...candy2, row: pos1.row, col: pos1.col } : null);
+  setCandy(newBoard, pos2.row, pos2.col, candy1 ? { ...candy1, row: pos2.row, col: pos2.col } : null);
   
   return newBoard;
 };
 
-export const findMatches = (board: (Candy | null)[][]): Position[] => {
-  const matches: Set<string> = new Set();
+interface MatchRun {
+  cells: Position[];
+  type: CandyType;
+  orientation: 'horizontal' | 'vertical';
+}
+
+// Find every maximal horizontal and vertical run of 3+ candies of the same color.
+// Ingredients break runs.
+const findRuns = (board: Board): MatchRun[] => {
+  const runs: MatchRun[] = [];
   const rows = board.length;
   const cols = board[0].length;
-  
-  // Check horizontal matches
+
   for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols - 2; col++) {
-      const candy1 = board[row][col];
-      const candy2 = board[row][col + 1];
-      const candy3 = board[row][col + 2];
-      
-      if (candy1 && candy2 && candy3 && 
-          candy1.type === candy2.type && 
-          candy2.type === candy3.type) {
-        matches.add(`${row}-${col}`);
-        matches.add(`${row}-${col + 1}`);
-        matches.add(`${row}-${col + 2}`);
-        
-        // Check for longer matches
-        let checkCol = col + 3;
-        while (checkCol < cols && board[row][checkCol]?.type === candy1.type) {
-          matches.add(`${row}-${checkCol}`);
-          checkCol++;
+    let col = 0;
+    while (col < cols) {
+      const type = getMatchType(board[row][col].candy);
+      let end = col + 1;
+      while (type && end < cols && getMatchType(board[row][end].candy) === type) {
+        end++;
+      }
+      if (type && end - col >= 3) {
+        const cells: Position[] = [];
+        for (let c = col; c < end; c++) {
+          cells.push({ row, col: c });
         }
+        runs.push({ cells, type, orientation: 'horizontal' });
       }
+      col = end;
     }
   }
-  
-  // Check vertical matches
+
   for (let col = 0; col < cols; col++) {
-    for (let row = 0; row < rows - 2; row++) {
-      const candy1 = board[row][col];
-      const candy2 = board[row + 1][col];
-      const candy3 = board[row + 2][col];
-      
-      if (candy1 && candy2 && candy3 && 
-          candy1.type === candy2.type && 
-          candy2.type === candy3.type) {
-        matches.add(`${row}-${col}`);
-        matches.add(`${row + 1}-${col}`);
-        matches.add(`${row + 2}-${col}`);
-        
-        // Check for longer matches
-        let checkRow = row + 3;
-        while (checkRow < rows && board[checkRow][col]?.type === candy1.type) {
-          matches.add(`${checkRow}-${col}`);
-          checkRow++;
+    let row = 0;
+    while (row < rows) {
+      const type = getMatchType(board[row][col].candy);
+      let end = row + 1;
+      while (type && end < rows && getMatchType(board[end][col].candy) === type) {
+        end++;
+      }
+      if (type && end - row >= 3) {
+        const cells: Position[] = [];
+        for (let r = row; r < end; r++) {
+          cells.push({ row: r, col });
         }
+        runs.push({ cells, type, orientation: 'vertical' });
       }
+      row = end;
     }
   }
-  
-  const matchArray = Array.from(matches).map(key => {
-    const [row, col] = key.split('-').map(Number);
-    return { row, col };
+
+  return runs;
+};
+
+const samePosition = (pos1: Position, pos2: Position): boolean => {
+  return pos1.row === pos2.row && pos1.col === pos2.col;
+};
+
+// Group runs into individual matches; runs of the same color that share a cell
+// form a single L or T shaped match
+export const findMatchGroups = (
+  board: Board,
+  anchors: Position[] = []
+): MatchGroup[] => {
+  const runs = findRuns(board);
+  const parent = runs.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parent[index] !== index) {
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < runs.length; i++) {
+    for (let j = i + 1; j < runs.length; j++) {
+      if (
+        runs[i].type === runs[j].type &&
+        runs[i].orientation !== runs[j].orientation &&
+        runs[i].cells.some(cell => runs[j].cells.some(other => samePosition(cell, other)))
+      ) {
+        parent[findRoot(j)] = findRoot(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, MatchRun[]>();
+  runs.forEach((run, index) => {
+    const root = findRoot(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), run]);
+  });
+
+  return Array.from(clusters.values()).map(clusterRuns => {
+    const cells: Position[] = [];
+    clusterRuns.forEach(run => {
+      run.cells.forEach(cell => {
+        if (!cells.some(existing => samePosition(existing, cell))) {
+          cells.push(cell);
+        }
+      });
+    });
+
+    const longest = clusterRuns.reduce((best, run) => (run.cells.length > best.cells.length ? run : best));
+    const horizontal = clusterRuns.find(run => run.orientation === 'horizontal');
+    const vertical = clusterRuns.find(run => run.orientation === 'vertical');
+    const intersection = horizontal && vertical
+      ? horizontal.cells.find(cell => vertical.cells.some(other => samePosition(cell, other)))
+      : undefined;
+
+    let shape: MatchShape;
+    if (longest.cells.length >= 5) {
+      shape = 'line5';
+    } else if (horizontal && vertical && intersection) {
+      const isEnd = (run: MatchRun) =>
+        samePosition(run.cells[0], intersection) || samePosition(run.cells[run.cells.length - 1], intersection);
+      shape = isEnd(horizontal) && isEnd(vertical) ? 'L' : 'T';
+    } else {
+      shape = longest.cells.length === 4 ? 'line4' : 'line3';
+    }
+
+    const swapAnchor = anchors.find(anchor => cells.some(cell => samePosition(cell, anchor)));
+    const fallbackAnchor = shape === 'line5'
+      ? longest.cells[2]
+      : intersection && (shape === 'L' || shape === 'T') ? intersection : longest.cells[1];
+
+    return {
+      cells,
+      color: longest.type,
+      orientation: clusterRuns.length > 1 ? 'both' : longest.orientation,
+      shape,
+      anchor: swapAnchor ?? fallbackAnchor,
+    };
+  });
+};
+
+// Flatten match groups into the unique matched cells
+export const getMatchedPositions = (groups: MatchGroup[]): Position[] => {
+  const matches = new Map<string, Position>();
+  groups.forEach(group => {
+    group.cells.forEach(cell => matches.set(`${cell.row}-${cell.col}`, cell));
   });
+  return Array.from(matches.values());
+};
+
+export const findMatches = (board: Board): Position[] => {
+  const matchArray = getMatchedPositions(findMatchGroups(board));
   
   if (matchArray.length > 0) {
     console.log(`Found ${matchArray.length} matches`);
@@ -281,84 +1059,600 @@ export const findMatches = (board: (Candy | null)[][]): Position[] => {
   return matchArray;
 };
 
+// Special candy earned by a match: a line of 5 makes a color bomb, an L or T
+// makes a wrapped candy and a line of 4 makes a striped candy
+const getSpecialForGroup = (group: MatchGroup): SpecialCandyType | null => {
+  switch (group.shape) {
+    case 'line5':
+      return 'color_bomb';
+    case 'L':
+    case 'T':
+      return 'wrapped';
+    case 'line4':
+      // A horizontal line earns a candy that clears a column, and vice versa
+      return group.orientation === 'horizontal' ? 'striped_vertical' : 'striped_horizontal';
+    default:
+      return null;
+  }
+};
+
+export const getSpecialCandySpawns = (groups: MatchGroup[]): Candy[] => {
+  const spawns: Candy[] = [];
+  groups.forEach(group => {
+    const special = getSpecialForGroup(group);
+    if (special) {
+      spawns.push(createSpecialCandy(group.anchor.row, group.anchor.col, group.color, special));
+    }
+  });
+
+  if (spawns.length > 0) {
+    console.log(`Spawning ${spawns.length} special candies`);
+  }
+
+  return spawns;
+};
+
+// Cells destroyed when a special candy detonates
+const getBlastArea = (board: Board, candy: Candy): Position[] => {
+  const rows = board.length;
+  const cols = board[0].length;
+  const area: Position[] = [];
+
+  switch (candy.special) {
+    case 'striped_horizontal':
+      for (let col = 0; col < cols; col++) {
+        area.push({ row: candy.row, col });
+      }
+      break;
+    case 'striped_vertical':
+      for (let row = 0; row < rows; row++) {
+        area.push({ row, col: candy.col });
+      }
+      break;
+    case 'wrapped':
+      for (let row = candy.row - 1; row <= candy.row + 1; row++) {
+        for (let col = candy.col - 1; col <= candy.col + 1; col++) {
+          if (row >= 0 && row < rows && col >= 0 && col < cols) {
+            area.push({ row, col });
+          }
+        }
+      }
+      break;
+    case 'color_bomb':
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          if (getMatchType(board[row][col].candy) === candy.type) {
+            area.push({ row, col });
+          }
+        }
+      }
+      break;
+  }
+
+  // Ingredients can't be destroyed, only brought down
+  return area.filter(({ row, col }) => getMatchType(board[row][col].candy) !== null);
+};
+
+// Expand cleared positions with the blast of every special candy among them,
+// following chain reactions when a blast hits another special candy
+export const expandDetonations = (
+  board: Board,
+  positions: Position[]
+): { positions: Position[]; detonated: number } => {
+  const cleared = new Map<string, Position>();
+  const queue = [...positions];
+  let detonated = 0;
+
+  while (queue.length > 0) {
+    const position = queue.shift()!;
+    const key = `${position.row}-${position.col}`;
+    if (cleared.has(key)) continue;
+    cleared.set(key, position);
+
+    const candy = board[position.row][position.col].candy;
+    if (candy?.special) {
+      detonated++;
+      queue.push(...getBlastArea(board, candy));
+    }
+  }
+
+  if (detonated > 0) {
+    console.log(`Detonated ${detonated} special candies, clearing ${cleared.size} cells`);
+  }
+
+  return { positions: Array.from(cleared.values()), detonated };
+};
+
+export interface SpecialSwapResult {
+  name: string;
+  // Board with the swapped specials consumed and any candies they converted
+  board: Board;
+  cleared: Position[];
+  detonated: number;
+}
+
+const isStriped = (candy: Candy): boolean => {
+  return candy.special === 'striped_horizontal' || candy.special === 'striped_vertical';
+};
+
+// Resolve a swap involving two special candies, or a color bomb and any candy.
+// Expects the board after the swap; the combo is centered where the moved candy landed.
+// Returns null when the swap has no special effect and must be judged by findMatches.
+export const resolveSpecialSwap = (
+  board: Board,
+  from: Position,
+  to: Position
+): SpecialSwapResult | null => {
+  const moved = board[to.row][to.col].candy;
+  const other = board[from.row][from.col].candy;
+  if (!moved || !other || isIngredient(moved) || isIngredient(other)) return null;
+
+  const bothSpecial = !!moved.special && !!other.special;
+  const hasBomb = moved.special === 'color_bomb' || other.special === 'color_bomb';
+  if (!bothSpecial && !hasBomb) return null;
+
+  const rows = board.length;
+  const cols = board[0].length;
+  const newBoard = cloneBoard(board);
+
+  // The swapped pair is consumed by the combo instead of detonating on its own
+  setCandy(newBoard, to.row, to.col, { ...moved, special: undefined });
+  setCandy(newBoard, from.row, from.col, { ...other, special: undefined });
+
+  const area: Position[] = [to, from];
+  const addRows = (first: number, last: number) => {
+    for (let row = Math.max(0, first); row <= Math.min(rows - 1, last); row++) {
+      for (let col = 0; col < cols; col++) area.push({ row, col });
+    }
+  };
+  const addCols = (first: number, last: number) => {
+    for (let col = Math.max(0, first); col <= Math.min(cols - 1, last); col++) {
+      for (let row = 0; row < rows; row++) area.push({ row, col });
+    }
+  };
+
+  let name: string;
+  const bomb = moved.special === 'color_bomb' ? moved : other;
+  const partner = bomb === moved ? other : moved;
+
+  if (moved.special === 'color_bomb' && other.special === 'color_bomb') {
+    name = 'Board Wipe';
+    addRows(0, rows - 1);
+  } else if (hasBomb && partner.special) {
+    // Every candy of the partner's color becomes that special, then they all go off
+    name = isStriped(partner) ? 'Striped Storm' : 'Wrapped Storm';
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const candy = newBoard[row][col].candy;
+        if (candy && getMatchType(candy) === partner.type && !candy.special && !samePosition({ row, col }, to) && !samePosition({ row, col }, from)) {
+          const special = partner.special === 'wrapped'
+            ? 'wrapped'
+            : (row + col) % 2 === 0 ? 'striped_horizontal' : 'striped_vertical';
+          setCandy(newBoard, row, col, { ...candy, special });
+          area.push({ row, col });
+        }
+      }
+    }
+    setCandy(newBoard, partner.row, partner.col, partner);
+    area.push({ row: partner.row, col: partner.col });
+  } else if (hasBomb) {
+    name = 'Color Bomb';
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (getMatchType(newBoard[row][col].candy) === partner.type) area.push({ row, col });
+      }
+    }
+  } else if (isStriped(moved) && isStriped(other)) {
+    name = 'Cross Blast';
+    addRows(to.row, to.row);
+    addCols(to.col, to.col);
+  } else if (moved.special === 'wrapped' && other.special === 'wrapped') {
+    name = 'Double Wrap';
+    for (let row = to.row - 2; row <= to.row + 2; row++) {
+      for (let col = to.col - 2; col <= to.col + 2; col++) {
+        if (row >= 0 && row < rows && col >= 0 && col < cols) area.push({ row, col });
+      }
+    }
+  } else {
+    name = 'Giant Cross';
+    addRows(to.row - 1, to.row + 1);
+    addCols(to.col - 1, to.col + 1);
+  }
+
+  const { positions, detonated } = expandDetonations(
+    newBoard,
+    area.filter(({ row, col }) => getMatchType(newBoard[row][col].candy) !== null)
+  );
+  console.log(`Special swap ${name} clears ${positions.length} cells`);
+
+  return {
+    name,
+    board: newBoard,
+    cleared: positions,
+    // The swapped pair counts as two detonations (one for a bomb and a plain candy)
+    detonated: detonated + (bothSpecial ? 2 : 1),
+  };
+};
+
+export const calculateMatchPoints = (clearedCount: number, detonations: number, level: number): number => {
+  return (clearedCount * POINTS_PER_CANDY + detonations * POINTS_PER_DETONATION) * level;
+};
+
+// Seconds a blitz turn earns, given how many candies each of its waves cleared
+export const calculateTimeBonus = (waveSizes: number[]): number => {
+  return waveSizes.reduce((seconds, size, wave) => {
+    const bigMatch = size >= BLITZ_BIG_MATCH_SIZE ? BLITZ_BIG_MATCH_SECONDS : 0;
+    const cascade = wave > BLITZ_FREE_CASCADES ? BLITZ_CASCADE_SECONDS : 0;
+    return seconds + bigMatch + cascade;
+  }, 0);
+};
+
+// Clear the matched candies; each one also peels a jelly layer off the tile beneath it.
+// A locked candy is freed from its cage instead of cleared. Ice next to any cleared
+// cell takes one hit and chocolate next to one is eaten.
 export const removeMatches = (
-  board: (Candy | null)[][],
+  board: Board,
   matches: Position[]
-): (Candy | null)[][] => {
+): Board => {
   console.log(`Removing ${matches.length} matched candies`);
-  const newBoard = board.map(row => [...row]);
+  const newBoard = cloneBoard(board);
+  matches.forEach(({ row, col }) => {
+    const { tile, candy } = newBoard[row][col];
+    const peeled = candy && tile.jelly > 0 ? { ...tile, jelly: tile.jelly - 1 } : tile;
+    newBoard[row][col] = tile.locked
+      ? { tile: { ...peeled, locked: false }, candy }
+      : { tile: peeled, candy: null };
+  });
+
+  const hitBlockers = new Set<string>();
   matches.forEach(({ row, col }) => {
-    newBoard[row][col] = null;
+    getNeighbors(newBoard, { row, col }).forEach(neighbor => {
+      const { tile } = newBoard[neighbor.row][neighbor.col];
+      if ((tile.ice ?? 0) > 0 || tile.chocolate) hitBlockers.add(`${neighbor.row}-${neighbor.col}`);
+    });
+  });
+  hitBlockers.forEach(key => {
+    const [row, col] = key.split('-').map(Number);
+    const { tile } = newBoard[row][col];
+    newBoard[row][col] = {
+      ...newBoard[row][col],
+      tile: tile.chocolate ? { ...tile, chocolate: false } : { ...tile, ice: (tile.ice ?? 0) - 1 },
+    };
+  });
+  if (hitBlockers.size > 0) {
+    console.log(`Hit ${hitBlockers.size} ice and chocolate blockers`);
+  }
+
+  return newBoard;
+};
+
+// Where a candy falling out of a cell goes next: through the cell's portal if it has
+// one, otherwise on in the gravity direction, straight past holes. Null at the board
+// edge or when a blocked or locked cell is in the way.
+const getFallTarget = (board: Board, position: Position, gravity: Direction): Position | null => {
+  const portal = board[position.row][position.col].tile.portal;
+  if (portal) {
+    return isFixed(board[portal.row][portal.col]) ? null : portal;
+  }
+
+  const step = GRAVITY_STEPS[gravity];
+  let row = position.row + step.row;
+  let col = position.col + step.col;
+  while (board[row]?.[col]?.tile.hole) {
+    row += step.row;
+    col += step.col;
+  }
+  const cell = board[row]?.[col];
+  return cell && !isFixed(cell) ? { row, col } : null;
+};
+
+// Every chain of cells candies fall along, each listed from the cell candies land on
+// back to the cell new candies enter at. Blocked and locked cells split a column into
+// separate chains and portals join chains together.
+export const getFallPaths = (board: Board, gravity: Direction): Position[][] => {
+  const upstream = new Map<string, Position>();
+  const sinks: Position[] = [];
+  board.forEach((row, rowIndex) => row.forEach((cell, colIndex) => {
+    if (cell.tile.hole || isFixed(cell)) return;
+    const position = { row: rowIndex, col: colIndex };
+    const target = getFallTarget(board, position, gravity);
+    const targetKey = target && `${target.row}-${target.col}`;
+    // A cell two chains would feed into only takes the first; the other ends there
+    if (targetKey && !upstream.has(targetKey)) {
+      upstream.set(targetKey, position);
+    } else {
+      sinks.push(position);
+    }
+  }));
+
+  return sinks.map(sink => {
+    const path = [sink];
+    let next = upstream.get(`${sink.row}-${sink.col}`);
+    while (next) {
+      path.push(next);
+      next = upstream.get(`${next.row}-${next.col}`);
+    }
+    return path;
   });
+};
+
+// Cells new candies drop in at: the entry of every fall path. When the board marks
+// spawners, only paths entering at one of them are refilled.
+export const getSpawnCells = (board: Board, gravity: Direction): Position[] => {
+  const hasSpawners = board.some(row => row.some(({ tile }) => tile.spawner));
+  return getFallPaths(board, gravity)
+    .map(path => path[path.length - 1])
+    .filter(({ row, col }) => !hasSpawners || board[row][col].tile.spawner);
+};
+
+// Let existing candies fall into the gaps along their fall paths, leaving the gaps
+// at the entry end of each path
+export const collapseBoard = (board: Board, gravity: Direction = 'down'): Board => {
+  const newBoard = cloneBoard(board);
+
+  getFallPaths(board, gravity).forEach(path => {
+    const candies = path
+      .map(({ row, col }) => board[row][col].candy)
+      .filter((candy): candy is Candy => candy !== null);
+    path.forEach(({ row, col }, index) => {
+      const candy = candies[index] ?? null;
+      setCandy(newBoard, row, col, candy && (candy.row !== row || candy.col !== col) ? { ...candy, row, col } : candy);
+    });
+  });
+
+  return newBoard;
+};
+
+// Fill the empty cells of every fall path that has a spawn cell with new candies,
+// from the landing end up. After collapseBoard the gaps sit at the entry of each path.
+// Up to `ingredients` randomly picked empty spawn cells get an ingredient instead.
+export const refillBoard = (
+  board: Board,
+  level: number,
+  rng: Rng,
+  gravity: Direction = 'down',
+  ingredients: number = 0
+): Board => {
+  const newBoard = cloneBoard(board);
+  const spawnCells = getSpawnCells(board, gravity);
+
+  const ingredientCells: Position[] = [];
+  const openCells = spawnCells.filter(({ row, col }) => board[row][col].candy === null);
+  while (ingredientCells.length < ingredients && openCells.length > 0) {
+    ingredientCells.push(openCells.splice(randomInt(rng, openCells.length), 1)[0]);
+  }
+
+  getFallPaths(board, gravity)
+    .filter(path => spawnCells.some(cell => samePosition(cell, path[path.length - 1])))
+    .forEach(path => {
+      path.forEach(({ row, col }) => {
+        if (newBoard[row][col].candy !== null) return;
+        const candy = ingredientCells.some(cell => samePosition(cell, { row, col }))
+          ? createIngredient(row, col)
+          : createCandy(row, col, level, rng);
+        setCandy(newBoard, row, col, candy);
+      });
+    });
+  
   return newBoard;
 };
 
-export const applyGravity = (board: (Candy | null)[][], level: number): (Candy | null)[][] => {
-  console.log('Applying gravity to board');
-  const newBoard = board.map(row => [...row]);
+// Like refillBoard, but each column only drops in what is left of its supply.
+// Cells a column can't fill stay empty at the top.
+export const refillBoardFromSupply = (
+  board: Board,
+  level: number,
+  rng: Rng,
+  supply: number[]
+): { board: Board; supply: number[] } => {
+  const newBoard = cloneBoard(board);
+  const newSupply = [...supply];
   const rows = newBoard.length;
   const cols = newBoard[0].length;
-  
+
   for (let col = 0; col < cols; col++) {
-    let emptyRow = rows - 1;
-    
-    // Move existing candies down
-    for (let row = rows - 1; row >= 0; row--) {
-      if (newBoard[row][col] !== null) {
-        if (row !== emptyRow) {
-          newBoard[emptyRow][col] = newBoard[row][col];
-          if (newBoard[emptyRow][col]) {
-            newBoard[emptyRow][col]!.row = emptyRow;
-            newBoard[emptyRow][col]!.col = col;
-          }
-          newBoard[row][col] = null;
-        }
-        emptyRow--;
+    for (let row = rows - 1; row >= 0 && newSupply[col] > 0; row--) {
+      if (newBoard[row][col].candy === null && !isBlocked(newBoard[row][col].tile)) {
+        setCandy(newBoard, row, col, createCandy(row, col, level, rng));
+        newSupply[col]--;
       }
     }
-    
-    // Fill empty spaces with new candies
-    for (let row = emptyRow; row >= 0; row--) {
-      newBoard[row][col] = createCandy(row, col, level);
-    }
   }
-  
+
+  return { board: newBoard, supply: newSupply };
+};
+
+// Turn the last cell of every fall path that ends at the board edge into an exit
+// for ingredients
+export const addExits = (board: Board, gravity: Direction = 'down'): Board => {
+  const newBoard = cloneBoard(board);
+  const step = GRAVITY_STEPS[gravity];
+  getFallPaths(board, gravity).forEach(([{ row, col }]) => {
+    let nextRow = row + step.row;
+    let nextCol = col + step.col;
+    while (board[nextRow]?.[nextCol]?.tile.hole) {
+      nextRow += step.row;
+      nextCol += step.col;
+    }
+    if (!board[nextRow]?.[nextCol] && !board[row][col].tile.portal) {
+      newBoard[row][col] = { ...newBoard[row][col], tile: { ...newBoard[row][col].tile, exit: true } };
+    }
+  });
   return newBoard;
 };
 
-export const hasValidMoves = (board: (Candy | null)[][]): boolean => {
+// Ingredients sitting on an exit, ready to be collected
+export const findCollectableIngredients = (board: Board): Position[] => {
+  const positions: Position[] = [];
+  board.forEach((row, rowIndex) => row.forEach(({ tile, candy }, colIndex) => {
+    if (tile.exit && isIngredient(candy)) {
+      positions.push({ row: rowIndex, col: colIndex });
+    }
+  }));
+  return positions;
+};
+
+export const countIngredients = (board: Board): number => {
+  return board.reduce((sum, row) => sum + row.filter(({ candy }) => isIngredient(candy)).length, 0);
+};
+
+export const countChocolate = (board: Board): number => {
+  return board.reduce((sum, row) => sum + row.filter(({ tile }) => tile.chocolate).length, 0);
+};
+
+// Chocolate takes over one random candy next to it. Ingredients and caged candies
+// are safe. Returns null when no chocolate has a candy to grow onto.
+export const spreadChocolate = (
+  board: Board,
+  rng: Rng
+): { board: Board; from: Position; to: Position } | null => {
+  const options: { from: Position; to: Position }[] = [];
+  board.forEach((row, rowIndex) => row.forEach(({ tile }, colIndex) => {
+    if (!tile.chocolate) return;
+    const from = { row: rowIndex, col: colIndex };
+    getNeighbors(board, from).forEach(to => {
+      const cell = board[to.row][to.col];
+      if (cell.candy && !isIngredient(cell.candy) && !cell.tile.locked) {
+        options.push({ from, to });
+      }
+    });
+  }));
+  if (options.length === 0) return null;
+
+  const { from, to } = options[randomInt(rng, options.length)];
+  const newBoard = cloneBoard(board);
+  newBoard[to.row][to.col] = { tile: { ...newBoard[to.row][to.col].tile, chocolate: true }, candy: null };
+  console.log(`Chocolate spreads from (${from.row},${from.col}) to (${to.row},${to.col})`);
+  return { board: newBoard, from, to };
+};
+
+// Extra value for hints when a move creates a special candy or touches the objective
+const SPECIAL_MOVE_VALUE: Record<SpecialCandyType, number> = {
+  striped_horizontal: 40,
+  striped_vertical: 40,
+  wrapped: 60,
+  color_bomb: 100,
+};
+const OBJECTIVE_CANDY_VALUE = 20;
+
+// Every valid swap on the board, best first. A swap is valid when it makes a match
+// or puts two special candies (or a color bomb) together. Candies of the target
+// colors, candies sitting on jelly, below an ingredient or next to chocolate count
+// extra so hints favour objective progress.
+export const findValidMoves = (
+  board: Board,
+  targetColors: CandyType[] = []
+): MoveCandidate[] => {
   const rows = board.length;
   const cols = board[0].length;
+  const candidates: MoveCandidate[] = [];
+
+  const countObjectiveCandies = (testBoard: Board, cells: Position[]): number => {
+    return cells.filter(({ row, col }) => {
+      const { tile, candy } = testBoard[row][col];
+      return candy !== null && (
+        targetColors.includes(candy.type) ||
+        tile.jelly > 0 ||
+        testBoard.slice(0, row).some(above => isIngredient(above[col].candy)) ||
+        getNeighbors(testBoard, { row, col }).some(neighbor => testBoard[neighbor.row][neighbor.col].tile.chocolate)
+      );
+    }).length;
+  };
+
+  const tryMove = (from: Position, to: Position) => {
+    // Candies can't be moved into empty cells or out of cages
+    if (!isSwappable(board, from) || !isSwappable(board, to)) return;
+
+    const testBoard = swapCandies(board, from, to);
+    const specialSwap = resolveSpecialSwap(testBoard, from, to);
+
+    if (specialSwap) {
+      const objectiveCandies = countObjectiveCandies(specialSwap.board, specialSwap.cleared);
+      candidates.push({
+        from,
+        to,
+        matchSize: specialSwap.cleared.length,
+        specials: [],
+        objectiveCandies,
+        value: calculateMatchPoints(specialSwap.cleared.length, specialSwap.detonated, 1) +
+          objectiveCandies * OBJECTIVE_CANDY_VALUE,
+      });
+      return;
+    }
+
+    const groups = findMatchGroups(testBoard, [from, to]);
+    if (groups.length === 0) return;
+
+    const cells = getMatchedPositions(groups);
+    const specials = groups
+      .map(getSpecialForGroup)
+      .filter((special): special is SpecialCandyType => special !== null);
+    const objectiveCandies = countObjectiveCandies(testBoard, cells);
+    candidates.push({
+      from,
+      to,
+      matchSize: cells.length,
+      specials,
+      objectiveCandies,
+      value: calculateMatchPoints(cells.length, 0, 1) +
+        specials.reduce((sum, special) => sum + SPECIAL_MOVE_VALUE[special], 0) +
+        objectiveCandies * OBJECTIVE_CANDY_VALUE,
+    });
+  };
   
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
       // Try swapping with right neighbor
       if (col < cols - 1) {
-        const testBoard = swapCandies(board, { row, col }, { row, col: col + 1 });
-        if (findMatches(testBoard).length > 0) {
-          return true;
-        }
+        tryMove({ row, col }, { row, col: col + 1 });
       }
       
       // Try swapping with bottom neighbor
       if (row < rows - 1) {
-        const testBoard = swapCandies(board, { row, col }, { row: row + 1, col });
-        if (findMatches(testBoard).length > 0) {
-          return true;
-        }
+        tryMove({ row, col }, { row: row + 1, col });
       }
     }
   }
   
+  return candidates.sort((a, b) => b.value - a.value);
+};
+
+// Whether any swap makes a match or sets off special candies. Same rule as
+// findValidMoves, but stops at the first valid move instead of ranking them all.
+export const hasValidMoves = (board: Board): boolean => {
+  const rows = board.length;
+  const cols = board[0].length;
+
+  const isValidMove = (from: Position, to: Position): boolean => {
+    if (!isSwappable(board, from) || !isSwappable(board, to)) return false;
+    const testBoard = swapCandies(board, from, to);
+    return resolveSpecialSwap(testBoard, from, to) !== null || findMatchGroups(testBoard, [from, to]).length > 0;
+  };
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      // Try swapping with right neighbor
+      if (col < cols - 1 && isValidMove({ row, col }, { row, col: col + 1 })) {
+        return true;
+      }
+
+      // Try swapping with bottom neighbor
+      if (row < rows - 1 && isValidMove({ row, col }, { row: row + 1, col })) {
+        return true;
+      }
+    }
+  }
+
   return false;
 };
 
 // Randomize the board while ensuring at least one valid move exists
-export const randomizeBoard = (board: (Candy | null)[][], level: number): (Candy | null)[][] => {
+// Tiles (with their jelly and blockers) and ingredients are kept, only the candies are replaced
+export const randomizeBoard = (board: Board, level: number, rng: Rng): Board => {
   console.log('Randomizing board - no valid moves available');
   const rows = board.length;
   const cols = board[0].length;
-  let newBoard: (Candy | null)[][] = [];
+  let newBoard: Board = [];
   let attempts = 0;
   const maxAttempts = 50;
   
@@ -372,18 +1666,23 @@ export const randomizeBoard = (board: (Candy | null)[][], level: number): (Candy
     for (let row = 0; row < rows; row++) {
       newBoard[row] = [];
       for (let col = 0; col < cols; col++) {
-        let candy = createCandy(row, col, level);
+        if (isIngredient(board[row][col].candy) || isBlocked(board[row][col].tile)) {
+          newBoard[row][col] = board[row][col];
+          continue;
+        }
+
+        let candy = createCandy(row, col, level, rng);
         
         // Ensure no initial matches (same as createInitialBoard)
         let candyAttempts = 0;
         while (candyAttempts < 10) {
           const hasMatch = checkWouldCreateMatch(newBoard, candy, row, col);
           if (!hasMatch) break;
-          candy = createCandy(row, col, level);
+          candy = createCandy(row, col, level, rng);
           candyAttempts++;
         }
         
-        newBoard[row][col] = candy;
+        newBoard[row][col] = { tile: board[row][col].tile, candy };
       }
     }
     
@@ -400,20 +1699,46 @@ export const randomizeBoard = (board: (Candy | null)[][], level: number): (Candy
   return newBoard;
 };
 
-// Check if board is completely cleared
-export const isBoardCleared = (board: (Candy | null)[][]): boolean => {
-  for (let row = 0; row < board.length; row++) {
-    for (let col = 0; col < board[row].length; col++) {
-      if (board[row][col] !== null) {
-        return false;
-      }
+// Rearrange the candies already on the board into a layout with no matches and at
+// least one valid move. Empty cells stay empty, locked candies stay in their cages,
+// ingredients stay where they are (like randomizeBoard) and no candies are added or removed.
+// Returns null when no such layout turns up, e.g. too few candies are left.
+export const shuffleBoard = (board: Board, rng: Rng): Board | null => {
+  const cells: Position[] = [];
+  const candies: Candy[] = [];
+  board.forEach((row, rowIndex) => row.forEach(({ tile, candy }, colIndex) => {
+    if (candy && !tile.locked && !isIngredient(candy)) {
+      cells.push({ row: rowIndex, col: colIndex });
+      candies.push(candy);
+    }
+  }));
+
+  for (let attempt = 1; attempt <= SHUFFLE_ATTEMPTS; attempt++) {
+    // Fisher-Yates on the candies, then deal them back onto the occupied cells
+    const shuffled = [...candies];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = randomInt(rng, i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    // Every shuffled cell gets a candy back, so the rest of the board is left as it is
+    const newBoard = cloneBoard(board);
+    cells.forEach(({ row, col }, index) => {
+      setCandy(newBoard, row, col, { ...shuffled[index], row, col });
+    });
+
+    if (findMatchGroups(newBoard).length === 0 && hasValidMoves(newBoard)) {
+      console.log(`Shuffled board on attempt ${attempt}`);
+      return newBoard;
     }
   }
-  return true;
+
+  console.log('Could not shuffle the board into a playable layout');
+  return null;
 };
 
 // Count candies by type on the board
-export const countCandiesByType = (board: (Candy | null)[][]): { [key in CandyType]: number } => {
+export const countCandiesByType = (board: Board): { [key in CandyType]: number } => {
   const counts: { [key in CandyType]: number } = {
     red: 0,
     blue: 0,
@@ -425,9 +1750,9 @@ export const countCandiesByType = (board: (Candy | null)[][]): { [key in CandyTy
   
   for (let row = 0; row < board.length; row++) {
     for (let col = 0; col < board[row].length; col++) {
-      const candy = board[row][col];
-      if (candy) {
-        counts[candy.type]++;
+      const type = getMatchType(board[row][col].candy);
+      if (type) {
+        counts[type]++;
       }
     }
   }
@@ -0,0 +1,21 @@
+// Minimal async key-value storage shared by the platform storage backends
+
+export interface KeyValueStore {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// Non-persistent store used when no platform storage exists (tests, headless tools)
+export const createMemoryStore = (): KeyValueStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+  };
+};
@@ -0,0 +1,330 @@
+// Persistent player progress with schema versioning.
+// Saves are migrated forward on load so older saves never break newer builds.
+
+import { BoosterType } from '@/types/game';
+import { getPreviousDateKey } from '@/utils/daily';
+import { KeyValueStore } from '@/utils/keyValueStore';
+import { storage } from '@/utils/storage';
+
+const PROGRESS_KEY = 'candyBlitz.progress';
+export const PROGRESS_VERSION = 6;
+// Blitz scores kept in the high-score table
+export const MAX_BLITZ_SCORES = 10;
+// Days of daily challenge results kept
+export const MAX_DAILY_RESULTS = 30;
+
+export const BOOSTER_TYPES: BoosterType[] = ['hammer', 'free_swap', 'shuffle', 'extra_moves', 'hint'];
+// Boosters of each type a new player starts with
+const STARTING_BOOSTERS = 1;
+// Completing every BOOSTER_REWARD_INTERVAL-th level for the first time rewards a booster
+const BOOSTER_REWARD_INTERVAL = 5;
+
+export type BoosterInventory = { [type in BoosterType]: number };
+
+export interface LevelRecord {
+  bestScore: number;
+  stars: number;
+}
+
+export interface BlitzScore {
+  score: number;
+  playedAt: number;
+}
+
+export interface DailyResult {
+  // YYYY-MM-DD day of the challenge
+  date: string;
+  score: number;
+  movesUsed: number;
+  completed: boolean;
+  stars: number;
+}
+
+export interface DailyProgress {
+  // Best attempt for each recent day
+  results: { [date: string]: DailyResult };
+  // Consecutive days completed, up to lastCompletedDate
+  streak: number;
+  bestStreak: number;
+  lastCompletedDate: string | null;
+}
+
+export interface PlayerProgress {
+  version: number;
+  // Highest level the player can start
+  highestUnlockedLevel: number;
+  // Best running score across consecutive levels
+  bestScore: number;
+  // Level the player is currently on, resumed on launch
+  currentLevel: number;
+  levels: { [level: number]: LevelRecord };
+  // Best blitz rounds, highest first
+  blitzScores: BlitzScore[];
+  // Best score of a single endless session
+  endlessBestScore: number;
+  daily: DailyProgress;
+  boosters: BoosterInventory;
+}
+
+export interface LevelResult {
+  level: number;
+  levelScore: number;
+  totalScore: number;
+  stars?: number;
+}
+
+const createDefaultDailyProgress = (): DailyProgress => ({
+  results: {},
+  streak: 0,
+  bestStreak: 0,
+  lastCompletedDate: null,
+});
+
+const createStartingBoosters = (): BoosterInventory => ({
+  hammer: STARTING_BOOSTERS,
+  free_swap: STARTING_BOOSTERS,
+  shuffle: STARTING_BOOSTERS,
+  extra_moves: STARTING_BOOSTERS,
+  hint: STARTING_BOOSTERS,
+});
+
+export const createDefaultProgress = (): PlayerProgress => ({
+  version: PROGRESS_VERSION,
+  highestUnlockedLevel: 1,
+  bestScore: 0,
+  currentLevel: 1,
+  levels: {},
+  blitzScores: [],
+  endlessBestScore: 0,
+  daily: createDefaultDailyProgress(),
+  boosters: createStartingBoosters(),
+});
+
+
+// A parsed save before its fields are checked
+type SavedData = Record<string, unknown>;
+
+const toNumber = (value: unknown, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+};
+
+const toRecord = (value: unknown): SavedData => {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as SavedData) : {};
+};
+
+// Each migration upgrades a save from version N to N + 1
+const MIGRATIONS: { [fromVersion: number]: (data: SavedData) => SavedData } = {
+  // Saves written before versioning existed
+  0: data => ({ ...data, version: 1 }),
+  // Blitz mode added its high-score table
+  1: data => ({ ...data, version: 2, blitzScores: [] }),
+  2: data => ({ ...data, version: 3, endlessBestScore: 0 }),
+  3: data => ({ ...data, version: 4, daily: createDefaultDailyProgress() }),
+  4: data => ({ ...data, version: 5, boosters: createStartingBoosters() }),
+  5: data => ({ ...data, version: 6, boosters: { ...toRecord(data.boosters), hint: STARTING_BOOSTERS } }),
+};
+
+export const migrateProgress = (data: unknown): PlayerProgress => {
+  const defaults = createDefaultProgress();
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return defaults;
+  }
+
+  let migrated: SavedData = { ...data };
+  let version = toNumber(migrated.version, 0);
+  while (version < PROGRESS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) {
+      migrated = migrate(migrated);
+    } else {
+      console.warn(`No progress migration from version ${version}`);
+    }
+    version++;
+  }
+
+  // Unknown fields from newer builds are kept; missing or invalid ones fall back to defaults
+  const levels: { [level: number]: LevelRecord } = {};
+  Object.entries(toRecord(migrated.levels)).forEach(([level, value]) => {
+    const record = toRecord(value);
+    levels[Number(level)] = {
+      bestScore: toNumber(record.bestScore, 0),
+      stars: toNumber(record.stars, 0),
+    };
+  });
+
+  const blitzScores: BlitzScore[] = (Array.isArray(migrated.blitzScores) ? migrated.blitzScores : [])
+    .map((value: unknown) => {
+      const entry = toRecord(value);
+      return { score: toNumber(entry.score, 0), playedAt: toNumber(entry.playedAt, 0) };
+    })
+    .slice(0, MAX_BLITZ_SCORES);
+
+  const daily = toRecord(migrated.daily);
+  const dailyResults: { [date: string]: DailyResult } = {};
+  Object.entries(toRecord(daily.results)).forEach(([date, value]) => {
+    const result = toRecord(value);
+    dailyResults[date] = {
+      date,
+      score: toNumber(result.score, 0),
+      movesUsed: toNumber(result.movesUsed, 0),
+      completed: result.completed === true,
+      stars: toNumber(result.stars, 0),
+    };
+  });
+  const lastCompletedDate = daily.lastCompletedDate;
+
+  const savedBoosters = toRecord(migrated.boosters);
+  const boosters = createStartingBoosters();
+  BOOSTER_TYPES.forEach(type => {
+    boosters[type] = Math.max(0, toNumber(savedBoosters[type], boosters[type]));
+  });
+
+  return {
+    ...migrated,
+    version: Math.max(version, PROGRESS_VERSION),
+    highestUnlockedLevel: Math.max(1, toNumber(migrated.highestUnlockedLevel, defaults.highestUnlockedLevel)),
+    bestScore: toNumber(migrated.bestScore, defaults.bestScore),
+    currentLevel: Math.max(1, toNumber(migrated.currentLevel, defaults.currentLevel)),
+    levels,
+    blitzScores,
+    endlessBestScore: toNumber(migrated.endlessBestScore, defaults.endlessBestScore),
+    daily: {
+      results: dailyResults,
+      streak: toNumber(daily.streak, 0),
+      bestStreak: toNumber(daily.bestStreak, 0),
+      lastCompletedDate: typeof lastCompletedDate === 'string' ? lastCompletedDate : null,
+    },
+    boosters,
+  };
+};
+
+export const loadProgress = async (store: KeyValueStore = storage): Promise<PlayerProgress> => {
+  try {
+    const saved = await store.getItem(PROGRESS_KEY);
+    return saved ? migrateProgress(JSON.parse(saved)) : createDefaultProgress();
+  } catch (error) {
+    console.warn('Could not load progress, starting fresh:', error);
+    return createDefaultProgress();
+  }
+};
+
+export const saveProgress = async (progress: PlayerProgress, store: KeyValueStore = storage): Promise<void> => {
+  try {
+    await store.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.warn('Could not save progress:', error);
+  }
+};
+
+export const recordLevelStarted = (progress: PlayerProgress, level: number): PlayerProgress => ({
+  ...progress,
+  currentLevel: level,
+});
+
+export const recordScore = (progress: PlayerProgress, totalScore: number): PlayerProgress => ({
+  ...progress,
+  bestScore: Math.max(progress.bestScore, totalScore),
+});
+
+// Boosters a level completion earns: one for the first completion of every
+// BOOSTER_REWARD_INTERVAL-th level and one for the first three-star finish of any level.
+// The type cycles with the level so every booster comes round.
+export const getLevelRewards = (progress: PlayerProgress, result: LevelResult): BoosterType[] => {
+  const previous = progress.levels[result.level];
+  const rewards: BoosterType[] = [];
+  if (!previous && result.level % BOOSTER_REWARD_INTERVAL === 0) {
+    rewards.push(BOOSTER_TYPES[(result.level / BOOSTER_REWARD_INTERVAL) % BOOSTER_TYPES.length]);
+  }
+  if ((previous?.stars ?? 0) < 3 && (result.stars ?? 0) >= 3) {
+    rewards.push(BOOSTER_TYPES[result.level % BOOSTER_TYPES.length]);
+  }
+  return rewards;
+};
+
+export const recordBoosterUsed = (progress: PlayerProgress, type: BoosterType): PlayerProgress => ({
+  ...progress,
+  boosters: { ...progress.boosters, [type]: Math.max(0, progress.boosters[type] - 1) },
+});
+
+// Keep the best score and stars for the level, unlock the next one and hand out its rewards
+export const recordLevelComplete = (progress: PlayerProgress, result: LevelResult): PlayerProgress => {
+  const previous = progress.levels[result.level];
+  const boosters = { ...progress.boosters };
+  getLevelRewards(progress, result).forEach(type => {
+    boosters[type]++;
+  });
+  return {
+    ...recordScore(progress, result.totalScore),
+    boosters,
+    highestUnlockedLevel: Math.max(progress.highestUnlockedLevel, result.level + 1),
+    currentLevel: result.level + 1,
+    levels: {
+      ...progress.levels,
+      [result.level]: {
+        bestScore: Math.max(previous?.bestScore ?? 0, result.levelScore),
+        stars: Math.max(previous?.stars ?? 0, result.stars ?? 0),
+      },
+    },
+  };
+};
+
+// Position a blitz score takes in the high-score table, or null when it doesn't make it
+export const getBlitzRank = (progress: PlayerProgress, score: number): number | null => {
+  const rank = progress.blitzScores.filter(entry => entry.score >= score).length;
+  return score > 0 && rank < MAX_BLITZ_SCORES ? rank : null;
+};
+
+export const recordBlitzScore = (progress: PlayerProgress, entry: BlitzScore): PlayerProgress => {
+  const rank = getBlitzRank(progress, entry.score);
+  if (rank === null) {
+    return progress;
+  }
+  const blitzScores = [...progress.blitzScores];
+  blitzScores.splice(rank, 0, entry);
+  return { ...progress, blitzScores: blitzScores.slice(0, MAX_BLITZ_SCORES) };
+};
+
+export const recordEndlessScore = (progress: PlayerProgress, score: number): PlayerProgress => {
+  return score > progress.endlessBestScore ? { ...progress, endlessBestScore: score } : progress;
+};
+
+// A completed attempt beats a failed one, then the higher score wins
+const isBetterDailyResult = (result: DailyResult, previous: DailyResult | undefined): boolean => {
+  if (!previous) return true;
+  if (result.completed !== previous.completed) return result.completed;
+  return result.score > previous.score;
+};
+
+// Keep the day's best attempt. The first completion of a day extends the streak when
+// the day before was completed too, and starts a new one otherwise.
+export const recordDailyResult = (progress: PlayerProgress, result: DailyResult): PlayerProgress => {
+  const { daily } = progress;
+  const previous = daily.results[result.date];
+  const results = isBetterDailyResult(result, previous)
+    ? { ...daily.results, [result.date]: result }
+    : daily.results;
+  const recentResults = Object.fromEntries(
+    Object.keys(results).sort().slice(-MAX_DAILY_RESULTS).map(date => [date, results[date]])
+  );
+
+  if (!result.completed || daily.lastCompletedDate === result.date) {
+    return { ...progress, daily: { ...daily, results: recentResults } };
+  }
+
+  const streak = daily.lastCompletedDate === getPreviousDateKey(result.date) ? daily.streak + 1 : 1;
+  return {
+    ...progress,
+    daily: {
+      results: recentResults,
+      streak,
+      bestStreak: Math.max(daily.bestStreak, streak),
+      lastCompletedDate: result.date,
+    },
+  };
+};
+
+// The streak still counts while today or yesterday was completed
+export const getDailyStreak = (progress: PlayerProgress, today: string): number => {
+  const { lastCompletedDate, streak } = progress.daily;
+  return lastCompletedDate === today || lastCompletedDate === getPreviousDateKey(today) ? streak : 0;
+};
@@ -0,0 +1,39 @@
+// Seeded pseudo-random number generation so boards can be reproduced from a seed
+
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => {
+  return { state: seed >>> 0 };
+};
+
+// Mulberry32 - small, fast and good enough for shuffling candies.
+// Advances the generator in place and returns a float in [0, 1).
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Random integer in [0, max)
+export const randomInt = (rng: Rng, max: number): number => {
+  return Math.floor(nextRandom(rng) * max);
+};
+
+// Fresh seed for a new play-through; the only place Math.random is used
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+// Derive a stable seed from a string (FNV-1a)
+export const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,82 @@
+// Snapshot of an in-progress level so it can be resumed after the app is killed.
+// Snapshots are disposable: one written by a different version is discarded.
+
+import { GameState } from '@/types/game';
+import { KeyValueStore } from '@/utils/keyValueStore';
+import { storage } from '@/utils/storage';
+
+const SAVED_GAME_KEY = 'candyBlitz.savedGame';
+export const SAVED_GAME_VERSION = 9;
+
+interface SavedGame {
+  version: number;
+  savedAt: number;
+  state: GameState;
+}
+
+export const serializeGameState = (state: GameState, savedAt: number): string => {
+  const savedGame: SavedGame = {
+    version: SAVED_GAME_VERSION,
+    savedAt,
+    // Selection and animation flags are UI state, not part of the level
+    state: { ...state, selectedCandy: null, isProcessing: false },
+  };
+  return JSON.stringify(savedGame);
+};
+
+export const deserializeGameState = (json: string): GameState | null => {
+  try {
+    const savedGame = JSON.parse(json) as SavedGame;
+    const state = savedGame?.state;
+    if (
+      savedGame?.version !== SAVED_GAME_VERSION ||
+      !state ||
+      !Array.isArray(state.board) ||
+      !state.board[0]?.[0]?.tile ||
+      typeof state.level !== 'number' ||
+      typeof state.rngState !== 'number' ||
+      typeof state.ingredientsCollected !== 'number' ||
+      typeof state.gravity !== 'string' ||
+      typeof state.mode !== 'string' ||
+      typeof state.movesPlayed !== 'number' ||
+      typeof state.undosLeft !== 'number' ||
+      !Array.isArray(state.history) ||
+      !Array.isArray(state.starThresholds) ||
+      state.status !== 'playing'
+    ) {
+      console.log('Discarding incompatible saved game');
+      return null;
+    }
+    return state;
+  } catch (error) {
+    console.warn('Could not read saved game:', error);
+    return null;
+  }
+};
+
+export const saveGameSnapshot = async (state: GameState, store: KeyValueStore = storage): Promise<void> => {
+  try {
+    await store.setItem(SAVED_GAME_KEY, serializeGameState(state, Date.now()));
+    console.log(`Saved level ${state.level} snapshot`);
+  } catch (error) {
+    console.warn('Could not save game:', error);
+  }
+};
+
+export const loadGameSnapshot = async (store: KeyValueStore = storage): Promise<GameState | null> => {
+  try {
+    const saved = await store.getItem(SAVED_GAME_KEY);
+    return saved ? deserializeGameState(saved) : null;
+  } catch (error) {
+    console.warn('Could not load saved game:', error);
+    return null;
+  }
+};
+
+export const clearGameSnapshot = async (store: KeyValueStore = storage): Promise<void> => {
+  try {
+    await store.removeItem(SAVED_GAME_KEY);
+  } catch (error) {
+    console.warn('Could not clear saved game:', error);
+  }
+};
@@ -0,0 +1,10 @@
+// Native storage backed by AsyncStorage
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyValueStore } from '@/utils/keyValueStore';
+
+export const storage: KeyValueStore = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
@@ -0,0 +1,25 @@
+// Web storage backed by localStorage, falling back to memory outside the browser.
+// Native platforms resolve storage.native.ts instead.
+
+import { KeyValueStore, createMemoryStore } from '@/utils/keyValueStore';
+
+const createLocalStorageStore = (): KeyValueStore => ({
+  getItem: async key => window.localStorage.getItem(key),
+  setItem: async (key, value) => {
+    window.localStorage.setItem(key, value);
+  },
+  removeItem: async key => {
+    window.localStorage.removeItem(key);
+  },
+});
+
+const hasLocalStorage = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+    return false;
+  }
+};
+
+export const storage: KeyValueStore = hasLocalStorage() ? createLocalStorageStore() : createMemoryStore();